@@ -1,6 +1,8 @@
 import { Page } from 'playwright';
 import * as fs from 'fs';
 import * as path from 'path';
+import { VisionSimulator } from './vision-simulator';
+import { VisionDeficiency, VisionSimulationResult } from './types';
 
 /**
  * Options for element-specific capture
@@ -528,6 +530,30 @@ export class AdvancedCapture {
     return outputPath;
   }
 
+  /**
+   * Capture the page as seen with color vision deficiencies, plus a labeled grid of all renderings
+   * Also reports states that are signalled by color alone
+   * 
+   * @example
+   * ```js
+   * const result = await advCapture.captureVisionDeficiencies({
+   *   deficiencies: ['deuteranopia', 'achromatopsia'],
+   * });
+   * console.log(result.gridPath, result.colorOnlySignals);
+   * ```
+   */
+  async captureVisionDeficiencies(options: {
+    deficiencies?: VisionDeficiency[];
+    fullPage?: boolean;
+    name?: string;
+  } = {}): Promise<VisionSimulationResult> {
+    const simulator = new VisionSimulator(this.page, this.outputDir);
+    return simulator.capture({
+      ...options,
+      name: options.name || this.generateFilename(new URL(this.page.url()).pathname, 'vision').replace(/\.png$/, ''),
+    });
+  }
+
   /**
    * Generate filename from selector
    */
@@ -1,28 +1,76 @@
-import { chromium, Browser, Page } from 'playwright';
+import { chromium, firefox, webkit, Browser, BrowserContext, BrowserContextOptions, BrowserType, Page } from 'playwright';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as axe from 'axe-core';
 import {
   Viewport,
   ViewportPreset,
-  VIEWPORT_PRESETS,
   ScreenshotResult,
   AccessibilityResult,
+  AccessibilityOptions,
+  AccessibilityStandard,
+  BrowserName,
+  AuthOptions,
+  AuthCookie,
+  MediaEmulation,
+  LocaleOptions,
+  ContrastResult,
+  MobileUXResult,
   LayoutAnalysis,
+  RuntimeReport,
+  NetworkSummary,
   CaptureOptions,
   Action,
+  ActionAssert,
+  AssertionResult,
+  NumberConstraint,
+  IgnoreRegion,
+  IgnoreRegionSpec,
+  Region,
 } from './types';
 import { InteractionEngine } from './interaction-engine';
+import { InteractionRecorder } from './interaction-recorder';
 import { AdvancedCapture } from './advanced-capture';
 import { ExtensionManager } from './extensions/extension-manager';
+import { ContrastChecker } from './extensions/contrast-checker';
+import { MobileUXAnalyzer } from './extensions/mobile-ux-analyzer';
+import { ResponsiveDesignInspector } from './extensions/responsive-design-inspector';
+import { RuntimeMonitor } from './runtime-monitor';
+import { NetworkMonitor } from './network-monitor';
+import { ViewportResolver } from './viewport-resolver';
+
+/**
+ * A capture that failed part-way, with what it produced before the failure
+ */
+export class CaptureError extends Error {
+  constructor(
+    message: string,
+    public partial: {
+      screenshots: ScreenshotResult[];
+      assertions: AssertionResult[];
+      runtime?: RuntimeReport;
+      network?: NetworkSummary;
+    }
+  ) {
+    super(message);
+    this.name = 'CaptureError';
+  }
+}
 
 /**
  * Handles browser automation and visual capture
  */
 export class BrowserEngine {
   private browser: Browser | null = null;
+  private browserName: BrowserName = 'chromium';
   private outputDir: string;
   private extensionManager: ExtensionManager;
+  private runtimeMonitors: WeakMap<Page, RuntimeMonitor> = new WeakMap();
+  private auth: AuthOptions = {};
+  private emulation: MediaEmulation = {};
+  private locale: LocaleOptions = {};
+  private viewportResolver = new ViewportResolver();
+  private warnedAxeRules = new Set<string>();
 
   constructor(outputDir: string = './uisentinel-output') {
     this.outputDir = path.resolve(outputDir);
@@ -32,16 +80,150 @@ export class BrowserEngine {
 
   /**
    * Initialize the browser
+   * Switching to a different browser closes the current one first
    */
-  async init(headless: boolean = true): Promise<void> {
+  async init(headless: boolean = true, browserName: BrowserName = 'chromium'): Promise<void> {
     if (this.browser) {
-      return;
+      if (this.browserName === browserName) {
+        return;
+      }
+      await this.close();
     }
 
-    this.browser = await chromium.launch({
+    const launchers: Record<BrowserName, BrowserType> = { chromium, firefox, webkit };
+    const launcher = launchers[browserName];
+    if (!launcher) {
+      throw new Error(`Unknown browser: ${browserName}. Use chromium, firefox or webkit.`);
+    }
+
+    this.browser = await launcher.launch({
       headless,
-      args: ['--disable-dev-shm-usage'],
+      args: browserName === 'chromium' ? ['--disable-dev-shm-usage'] : [],
     });
+    this.browserName = browserName;
+  }
+
+  /**
+   * Credentials applied to every page: storage state, extra headers, cookies and basic auth
+   */
+  setAuth(auth: AuthOptions = {}): void {
+    this.auth = auth;
+  }
+
+  /**
+   * Media features emulated on every page unless a capture overrides them
+   */
+  setEmulation(emulation: MediaEmulation = {}): void {
+    this.emulation = emulation;
+  }
+
+  /**
+   * Locale, timezone and geolocation for every page unless a capture overrides them
+   */
+  setLocale(locale: LocaleOptions = {}): void {
+    this.locale = locale;
+  }
+
+  /**
+   * Named viewports from config, usable wherever a preset or device name is
+   */
+  setViewportPresets(presets: Record<string, Viewport> = {}): void {
+    this.viewportResolver = new ViewportResolver(presets);
+  }
+
+  /**
+   * Resolve a preset, custom preset or Playwright device name to a viewport
+   */
+  resolveViewport(viewport: ViewportPreset | Viewport): Viewport {
+    return this.viewportResolver.resolve(viewport);
+  }
+
+  /**
+   * Short label for emulated media, e.g. { colorScheme: 'dark', forcedColors: 'active' } → 'dark-forced-colors'
+   * Returns undefined when nothing is emulated
+   */
+  describeEmulation(emulation: MediaEmulation): string | undefined {
+    const parts: string[] = [];
+    if (emulation.colorScheme) {
+      parts.push(emulation.colorScheme === 'no-preference' ? 'no-color-preference' : emulation.colorScheme);
+    }
+    if (emulation.reducedMotion === 'reduce') {
+      parts.push('reduced-motion');
+    }
+    if (emulation.forcedColors === 'active') {
+      parts.push('forced-colors');
+    }
+    if (emulation.media === 'print') {
+      parts.push('print');
+    }
+    return parts.length > 0 ? parts.join('-') : undefined;
+  }
+
+  /**
+   * Open a headed browser at url, wait for a human to log in, then save the storage state
+   * @param waitForLogin - Resolves once the user is done logging in
+   * @returns Absolute path of the saved storage state
+   */
+  async recordStorageState(
+    url: string,
+    outputPath: string,
+    waitForLogin: (page: Page) => Promise<void>,
+    browserName: BrowserName = this.browserName
+  ): Promise<string> {
+    const launchers: Record<BrowserName, BrowserType> = { chromium, firefox, webkit };
+    const browser = await launchers[browserName].launch({ headless: false });
+
+    try {
+      const context = await browser.newContext({ viewport: null });
+      const page = await context.newPage();
+      await page.goto(url);
+      await waitForLogin(page);
+
+      const resolvedPath = path.resolve(outputPath);
+      fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+      await context.storageState({ path: resolvedPath });
+      return resolvedPath;
+    } finally {
+      await browser.close();
+    }
+  }
+
+  /**
+   * Open a headed browser at url and record what a human does there as actions
+   * Pages open logged in and emulated like captures, at one viewport so the replay matches
+   * @param waitForDone - Resolves once the user is done
+   * @param onAction - Called for each new step as it is recorded
+   */
+  async recordInteractions(
+    url: string,
+    waitForDone: (page: Page) => Promise<void>,
+    options: { viewport?: ViewportPreset | Viewport; onAction?: (action: Action) => void } = {},
+    browserName: BrowserName = this.browserName
+  ): Promise<Action[]> {
+    const launchers: Record<BrowserName, BrowserType> = { chromium, firefox, webkit };
+    const browser = await launchers[browserName].launch({ headless: false });
+
+    try {
+      const context = await browser.newContext(this.getContextOptions(this.viewportResolver.resolve(options.viewport || 'desktop')));
+      await this.addAuthCookies(context, url);
+      const page = await context.newPage();
+      await this.applyEmulation(page, this.emulation);
+
+      const recorder = new InteractionRecorder(page, { onAction: options.onAction });
+      await recorder.start();
+      await page.goto(url);
+      await waitForDone(page);
+      return recorder.getActions();
+    } finally {
+      await browser.close();
+    }
+  }
+
+  /**
+   * Name of the browser engine in use
+   */
+  getBrowserName(): BrowserName {
+    return this.browserName;
   }
 
   /**
@@ -50,7 +232,12 @@ export class BrowserEngine {
   async capture(options: CaptureOptions): Promise<{
     screenshots: ScreenshotResult[];
     accessibility?: AccessibilityResult;
+    contrast?: ContrastResult;
+    mobileUX?: MobileUXResult;
     layout?: LayoutAnalysis;
+    runtime: RuntimeReport;
+    network?: NetworkSummary;
+    assertions?: AssertionResult[];
   }> {
     if (!this.browser) {
       throw new Error('Browser not initialized. Call init() first.');
@@ -58,64 +245,189 @@ export class BrowserEngine {
 
     const viewports = this.resolveViewports(options.viewports || ['desktop']);
     const screenshots: ScreenshotResult[] = [];
+    const assertions: AssertionResult[] = [];
     let accessibility: AccessibilityResult | undefined;
+    let contrast: ContrastResult | undefined;
+    let mobileUX: MobileUXResult | undefined;
     let layout: LayoutAnalysis | undefined;
+    const monitor = new RuntimeMonitor();
+    const networkOptions = typeof options.network === 'object' ? options.network : {};
+    const networkMonitor = options.network ? new NetworkMonitor(networkOptions.slowThreshold) : undefined;
+    const namePrefix = options.name || this.generateNameFromUrl(options.url);
+    const emulation: MediaEmulation = {
+      ...this.emulation,
+      ...(options.colorScheme ? { colorScheme: options.colorScheme } : {}),
+      ...(options.reducedMotion ? { reducedMotion: options.reducedMotion } : {}),
+      ...(options.forcedColors ? { forcedColors: options.forcedColors } : {}),
+      ...(options.media ? { media: options.media } : {}),
+    };
+    const theme = this.describeEmulation(emulation);
+    const locale: LocaleOptions = {
+      ...this.locale,
+      ...(options.locale ? { locale: options.locale } : {}),
+      ...(options.timezoneId ? { timezoneId: options.timezoneId } : {}),
+      ...(options.geolocation ? { geolocation: options.geolocation } : {}),
+      ...(options.acceptLanguage ? { acceptLanguage: options.acceptLanguage } : {}),
+    };
+    const fileLabel = [this.browserName, theme, locale.locale].filter(Boolean).join('_');
 
-    for (const viewport of viewports) {
-      const page = await this.browser.newPage({
-        viewport,
-        deviceScaleFactor: viewport.deviceScaleFactor,
-      });
-
-      try {
-        // Navigate to URL
-        await page.goto(options.url, {
-          waitUntil: 'networkidle',
-          timeout: options.waitForTimeout || 30000,
+    try {
+      for (const viewport of viewports) {
+        // HAR recording is configured per context and flushed when the context closes
+        const harPath = networkMonitor && networkOptions.har !== false
+          ? path.join(this.outputDir, 'screenshots', `${namePrefix}_${this.viewportResolver.getFileName(viewport)}_${fileLabel}_${Date.now()}.har`)
+          : undefined;
+        if (harPath) {
+          fs.mkdirSync(path.dirname(harPath), { recursive: true });
+        }
+        const context = await this.browser.newContext({
+          ...this.getContextOptions(viewport, locale),
+          ...(harPath ? { recordHar: { path: harPath, content: 'omit' as const } } : {}),
         });
+        await this.addAuthCookies(context, options.url);
+        const page = await context.newPage();
+        await this.applyEmulation(page, emulation);
+        monitor.attach(page);
+        networkMonitor?.attach(page);
 
-        // Wait for specific selector if provided
-        if (options.waitForSelector) {
-          await page.waitForSelector(options.waitForSelector, {
+        try {
+          // Navigate to URL
+          await page.goto(options.url, {
+            waitUntil: 'networkidle',
             timeout: options.waitForTimeout || 30000,
           });
-        }
 
-        // NEW: Execute interactive actions before capture
-        if (options.actions && options.actions.length > 0) {
-          const interactionEngine = new InteractionEngine(page);
-          await interactionEngine.executeSequence(options.actions);
-        }
+          // Wait for specific selector if provided
+          if (options.waitForSelector) {
+            await page.waitForSelector(options.waitForSelector, {
+              timeout: options.waitForTimeout || 30000,
+            });
+          }
 
-        // Take screenshot
-        if (options.screenshot !== false) {
-          const namePrefix = options.name || this.generateNameFromUrl(options.url);
-          const screenshotPath = await this.takeScreenshot(page, viewport, options.url, namePrefix);
-          screenshots.push({
-            viewport: this.getViewportName(viewport),
-            path: screenshotPath,
-            width: viewport.width,
-            height: viewport.height,
-            timestamp: new Date().toISOString(),
-            url: options.url,
-          });
-        }
+          // NEW: Execute interactive actions before capture
+          let interactionEngine: InteractionEngine | undefined;
+          const addStepScreenshots = () => {
+            interactionEngine?.getScreenshots().forEach(step => {
+              screenshots.push({
+                viewport: step.viewport || this.getViewportName(viewport),
+                browser: this.browserName,
+                theme,
+                locale: locale.locale,
+                path: step.path,
+                width: step.width,
+                height: step.height,
+                timestamp: new Date().toISOString(),
+                url: options.url,
+                step: step.name,
+              });
+            });
+          };
+          if (options.actions && options.actions.length > 0) {
+            interactionEngine = new InteractionEngine(page, {
+              outputDir: this.outputDir,
+              viewportResolver: this.viewportResolver,
+            });
+            let sequenceError: Error | undefined;
+            try {
+              await interactionEngine.executeSequence(options.actions);
+            } catch (error) {
+              sequenceError = error as Error;
+            }
+            interactionEngine.getAssertions().forEach(assertion => {
+              assertions.push({ ...assertion, viewport: this.getViewportName(viewport) });
+            });
+            // Keep what was checked and captured before the failing action
+            if (sequenceError) {
+              addStepScreenshots();
+              throw new CaptureError(sequenceError.message, { screenshots: [...screenshots], assertions: [...assertions] });
+            }
+          }
 
-        // Run accessibility checks (once, on first viewport)
-        if (options.accessibility && !accessibility) {
-          accessibility = await this.runAccessibilityChecks(page);
-        }
+          // A setViewport action only resizes the page; scale and touch stay those of the context
+          const resized = interactionEngine?.getViewport();
+          const current: Viewport = resized
+            ? { ...viewport, ...page.viewportSize(), name: this.getViewportName(resized) }
+            : viewport;
+
+          // Take screenshot
+          if (options.screenshot !== false) {
+            const fullPage = options.fullPage ?? true;
+            const masks = options.ignoreRegions?.length
+              ? await this.resolveIgnoreRegions(page, options.ignoreRegions, current, fullPage)
+              : undefined;
+            const screenshotPath = await this.takeScreenshot(page, current, options.url, namePrefix, fullPage, fileLabel);
+            screenshots.push({
+              viewport: this.getViewportName(current),
+              browser: this.browserName,
+              theme,
+              locale: locale.locale,
+              path: screenshotPath,
+              width: current.width,
+              height: current.height,
+              timestamp: new Date().toISOString(),
+              url: options.url,
+              masks,
+            });
+          }
+
+          // Screenshots taken by screenshot actions follow the final one
+          addStepScreenshots();
+
+          // Run accessibility checks (once, on first viewport)
+          if (options.accessibility && !accessibility) {
+            accessibility = await this.runAccessibilityChecks(
+              page,
+              typeof options.accessibility === 'object' ? options.accessibility : {}
+            );
+          }
+
+          // Run contrast and touch target checks (once, on first viewport)
+          if (options.contrast && !contrast) {
+            contrast = await this.runContrastCheck(page);
+          }
+          if (options.mobileUX && !mobileUX) {
+            mobileUX = await this.runMobileUXCheck(page);
+          }
 
-        // Analyze layout
-        if (options.layoutAnalysis) {
-          layout = await this.analyzeLayout(page, viewport);
+          // Analyze layout
+          if (options.layoutAnalysis) {
+            layout = await this.analyzeLayout(page, current);
+            if (options.viewportOverflow) {
+              layout.viewportOverflows = await this.runViewportOverflowCheck(page);
+            }
+          }
+        } finally {
+          // Response and size lookups for finished requests fail once the page is closed
+          await networkMonitor?.settle();
+          await page.close();
+          await context.close();
+          if (harPath) {
+            networkMonitor.addHar(harPath);
+          }
         }
-      } finally {
-        await page.close();
       }
+    } catch (error) {
+      // Hand back what the page logged and requested before the failure too
+      if (error instanceof CaptureError) {
+        error.partial.runtime = monitor.getReport();
+        error.partial.network = await networkMonitor?.getSummary();
+      }
+      throw error;
+    } finally {
+      monitor.detach();
+      networkMonitor?.detach();
     }
 
-    return { screenshots, accessibility, layout };
+    return {
+      screenshots,
+      accessibility,
+      contrast,
+      mobileUX,
+      layout,
+      runtime: monitor.getReport(),
+      network: await networkMonitor?.getSummary(),
+      assertions: options.actions?.some(action => action.type === 'assert') ? assertions : undefined,
+    };
   }
 
   /**
@@ -124,7 +436,8 @@ export class BrowserEngine {
   generateCaptureReport(
     options: CaptureOptions,
     screenshots: ScreenshotResult[],
-    accessibility?: AccessibilityResult
+    accessibility?: AccessibilityResult,
+    assertions: AssertionResult[] = []
   ): string {
     if (!options.name) {
       return ''; // No report if no name provided
@@ -148,7 +461,7 @@ export class BrowserEngine {
     lines.push(`- **Test Name**: \`${options.name}\``);
     lines.push(`- **URL**: ${options.url}`);
     lines.push(`- **Timestamp**: ${new Date().toISOString()}`);
-    lines.push(`- **Viewports**: ${screenshots.map(s => s.viewport).join(', ')}`);
+    lines.push(`- **Viewports**: ${screenshots.filter(s => !s.step).map(s => s.viewport).join(', ')}`);
     lines.push('');
     
     // Actions
@@ -164,6 +477,20 @@ export class BrowserEngine {
     // Results
     lines.push('## 📊 Results');
     lines.push('');
+
+    // Assertions
+    if (assertions.length > 0) {
+      const failed = assertions.filter(assertion => !assertion.passed).length;
+      lines.push(`### ✔️ Assertions: ${assertions.length - failed}/${assertions.length} passed`);
+      lines.push('');
+      assertions.forEach(assertion => {
+        const where = assertion.viewport ? ` (${assertion.viewport})` : '';
+        lines.push(assertion.passed
+          ? `- ✅ Step ${assertion.step}${where}: ${assertion.description}`
+          : `- ❌ Step ${assertion.step}${where}: ${assertion.description} - expected ${assertion.expected}, got ${assertion.actual}`);
+      });
+      lines.push('');
+    }
     
     // Accessibility
     if (accessibility) {
@@ -192,7 +519,7 @@ export class BrowserEngine {
     lines.push('');
     screenshots.forEach(screenshot => {
       const filename = path.basename(screenshot.path);
-      lines.push(`### ${screenshot.viewport} (${screenshot.width}x${screenshot.height})`);
+      lines.push(`### ${screenshot.step ? `${screenshot.step} - ` : ''}${screenshot.viewport} (${screenshot.width}x${screenshot.height})`);
       lines.push(`![${screenshot.viewport}](screenshots/${filename})`);
       lines.push('');
     });
@@ -235,31 +562,149 @@ export class BrowserEngine {
         return `**Press** key "${action.key}"`;
       case 'select':
         return `**Select** "${action.value}" in \`${action.selector}\``;
+      case 'drag':
+        return `**Drag** \`${action.selector}\` onto \`${action.target}\``;
+      case 'upload':
+        return `**Upload** ${(Array.isArray(action.files) ? action.files : [action.files]).map(f => `"${f}"`).join(', ') || 'nothing (clear)'} to \`${action.selector}\``;
+      case 'check':
+        return `**Check** \`${action.selector}\``;
+      case 'uncheck':
+        return `**Uncheck** \`${action.selector}\``;
+      case 'focus':
+        return `**Focus** \`${action.selector}\``;
+      case 'blur':
+        return `**Blur** \`${action.selector}\``;
+      case 'goto':
+        return `**Go to** ${action.url}`;
+      case 'setViewport':
+        return typeof action.viewport === 'string'
+          ? `**Resize** to ${action.viewport}`
+          : `**Resize** to ${action.viewport.width}x${action.viewport.height}`;
+      case 'evaluate':
+        return `**Evaluate** \`${action.script}\``;
+      case 'screenshot':
+        return `**Screenshot**${action.name ? ` "${action.name}"` : ''}${action.selector ? ` of \`${action.selector}\`` : ''}`;
+      case 'waitForNavigation':
+        return action.url ? `**Wait** for navigation to ${action.url}` : '**Wait** for navigation';
+      case 'waitForResponse':
+        return `**Wait** for response from ${action.url}${action.status ? ` (${action.status})` : ''}`;
+      case 'assert':
+        return `**Assert** ${this.describeAssertion(action)}`;
       default:
         return `**Unknown action**: ${JSON.stringify(action)}`;
     }
   }
 
+  /**
+   * e.g. text of `#title` contains "Welcome"
+   */
+  private describeAssertion(action: ActionAssert): string {
+    const match = (expectation: { equals?: string; contains?: string }) => [
+      expectation.equals !== undefined ? `equals "${expectation.equals}"` : '',
+      expectation.contains !== undefined ? `contains "${expectation.contains}"` : '',
+    ].filter(Boolean).join(' and ') || 'is present';
+    const range = (constraint: NumberConstraint) => typeof constraint === 'number'
+      ? `= ${constraint}`
+      : [
+        constraint.min !== undefined ? `≥ ${constraint.min}` : '',
+        constraint.max !== undefined ? `≤ ${constraint.max}` : '',
+      ].filter(Boolean).join(' and ');
+
+    switch (action.assert) {
+      case 'visible':
+      case 'hidden':
+        return `\`${action.selector}\` is ${action.assert}`;
+      case 'text':
+        return `text of \`${action.selector}\` ${match(action)}`;
+      case 'attribute':
+        return `\`${action.name}\` of \`${action.selector}\` ${match(action)}`;
+      case 'css':
+        return `\`${action.property}\` of \`${action.selector}\` ${match(action)}`;
+      case 'count':
+        return `number of \`${action.selector}\` ${range(action.equals ?? { min: action.min, max: action.max })}`;
+      case 'url':
+        return `URL matches \`${action.matches}\``;
+      case 'box':
+        return `\`${action.selector}\` ${(['width', 'height', 'x', 'y'] as const)
+          .filter(key => action[key] !== undefined)
+          .map(key => `${key} ${range(action[key]!)}`)
+          .join(', ')}`;
+    }
+  }
+
   /**
    * Take a screenshot
    */
-  private async takeScreenshot(page: Page, viewport: Viewport, url: string, namePrefix?: string): Promise<string> {
+  private async takeScreenshot(
+    page: Page,
+    viewport: Viewport,
+    url: string,
+    namePrefix?: string,
+    fullPage: boolean = true,
+    label: string = this.browserName
+  ): Promise<string> {
     const timestamp = Date.now();
-    const viewportName = this.getViewportName(viewport);
+    const viewportName = this.viewportResolver.getFileName(viewport);
     const prefix = namePrefix || this.generateNameFromUrl(url);
-    const filename = `${prefix}_${viewportName}_${timestamp}.png`;
+    const filename = `${prefix}_${viewportName}_${label}_${timestamp}.png`;
     const screenshotPath = path.join(this.outputDir, 'screenshots', filename);
 
     fs.mkdirSync(path.dirname(screenshotPath), { recursive: true });
 
     await page.screenshot({
       path: screenshotPath,
-      fullPage: true,
+      fullPage,
     });
 
     return screenshotPath;
   }
 
+  /**
+   * Resolve ignore selectors and rectangles to regions in screenshot pixels
+   * Full-page screenshots are in document coordinates, so scroll offsets are added
+   */
+  private async resolveIgnoreRegions(
+    page: Page,
+    specs: IgnoreRegionSpec[],
+    viewport: Viewport,
+    fullPage: boolean
+  ): Promise<IgnoreRegion[]> {
+    const scale = viewport.deviceScaleFactor || 1;
+    const selectors = specs.filter((spec): spec is string => typeof spec === 'string');
+    const rects = specs.filter((spec): spec is Region => typeof spec !== 'string');
+
+    const boxes = await page.evaluate(({ selectors, fullPage }) => {
+      const found: Array<{ selector: string; x: number; y: number; width: number; height: number }> = [];
+      const offsetX = fullPage ? window.scrollX : 0;
+      const offsetY = fullPage ? window.scrollY : 0;
+
+      selectors.forEach((selector) => {
+        document.querySelectorAll(selector).forEach((el) => {
+          const rect = el.getBoundingClientRect();
+          if (rect.width > 0 && rect.height > 0) {
+            found.push({
+              selector,
+              x: rect.x + offsetX,
+              y: rect.y + offsetY,
+              width: rect.width,
+              height: rect.height,
+            });
+          }
+        });
+      });
+
+      return found;
+    }, { selectors, fullPage });
+
+    return [...boxes, ...rects].map((box) => ({
+      ...box,
+      x: Math.floor(box.x * scale),
+      y: Math.floor(box.y * scale),
+      width: Math.ceil(box.width * scale),
+      height: Math.ceil(box.height * scale),
+    }));
+  }
+
   /**
    * Generate snake_case name from URL
    */
@@ -278,23 +723,70 @@ export class BrowserEngine {
 
   /**
    * Run accessibility checks using axe-core
+   * @param options - WCAG standard to test against (default WCAG21AA) and waived findings
    */
-  async runAccessibilityChecks(page: Page): Promise<AccessibilityResult> {
+  async runAccessibilityChecks(page: Page, options: AccessibilityOptions = {}): Promise<AccessibilityResult> {
+    const standard = options.standard || 'WCAG21AA';
+    const ignore = options.ignore || [];
+
     // Inject axe-core
     await page.addScriptTag({
       content: fs.readFileSync(require.resolve('axe-core'), 'utf-8'),
     });
 
+    // Rule IDs are disabled outright, selectors without a rule are excluded from the
+    // axe context, and rule-scoped selectors are filtered from that rule's results
+    // axe.run rejects unknown rule IDs, so a typo would fail the whole check
+    const knownRules = new Set(axe.getRules().map(r => r.ruleId));
+    const isKnownRule = (rule: string): boolean => {
+      if (knownRules.has(rule)) return true;
+      if (!this.warnedAxeRules.has(rule)) {
+        this.warnedAxeRules.add(rule);
+        console.warn(`⚠ Unknown axe rule "${rule}" in accessibility.ignore, skipping it`);
+      }
+      return false;
+    };
+    const disabledRules = ignore
+      .filter((i): i is string => typeof i === 'string')
+      .filter(isKnownRule);
+    const excludedSelectors = ignore
+      .filter((i): i is { selector: string } => typeof i !== 'string' && !i.rule)
+      .map(i => i.selector);
+    const ruleExclusions = ignore
+      .filter((i): i is { selector: string; rule: string } => typeof i !== 'string' && !!i.rule)
+      .filter(i => isKnownRule(i.rule));
+
     // Run axe
-    const results = await page.evaluate(() => {
+    const results = await page.evaluate(async ({ tags, disabledRules, excludedSelectors, ruleExclusions }) => {
+      const context = { exclude: excludedSelectors.map(selector => [selector]) };
+      const rules: Record<string, { enabled: boolean }> = {};
+      disabledRules.forEach((rule) => {
+        rules[rule] = { enabled: false };
+      });
+
       // @ts-ignore - running in browser context
-      return window.axe.run({
+      const raw = await window.axe.run(context, {
         runOnly: {
           type: 'tag',
-          values: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'],
+          values: tags,
         },
+        rules,
       });
-    });
+
+      const isExcluded = (ruleId: string, target: string[]): boolean => {
+        return ruleExclusions.some(({ selector, rule }) => {
+          if (rule !== ruleId || target.length !== 1) return false;
+          const el = document.querySelector(target[0]);
+          return !!el && !!el.closest(selector);
+        });
+      };
+
+      raw.violations = raw.violations
+        .map((v: any) => ({ ...v, nodes: v.nodes.filter((n: any) => !isExcluded(v.id, n.target)) }))
+        .filter((v: any) => v.nodes.length > 0);
+
+      return raw;
+    }, { tags: this.getAxeTags(standard), disabledRules, excludedSelectors, ruleExclusions });
 
     const violations = results.violations.map((v: any) => ({
       id: v.id,
@@ -322,10 +814,95 @@ export class BrowserEngine {
       passes: results.passes.length,
       incomplete: results.incomplete.length,
       score,
-      wcagLevel: 'WCAG21AA',
+      wcagLevel: standard,
+    };
+  }
+
+  /**
+   * Check text contrast with the contrast-checker extension, without marking up the page
+   */
+  async runContrastCheck(page: Page): Promise<ContrastResult> {
+    if (!this.extensionManager.getExtension('contrast-checker')) {
+      this.extensionManager.register(new ContrastChecker());
+    }
+
+    const result = await this.extensionManager.executeExtension(page, 'contrast-checker', 'checkContrast', {
+      params: { highlightIssues: false, showLabels: false },
+    });
+    if (!result.success) {
+      throw new Error(`Contrast check failed: ${result.error}`);
+    }
+
+    const { issues, stats, summary } = result.data;
+    return { issues, stats, summary };
+  }
+
+  /**
+   * Check touch targets with the mobile-ux-analyzer extension
+   */
+  async runMobileUXCheck(page: Page): Promise<MobileUXResult> {
+    if (!this.extensionManager.getExtension('mobile-ux-analyzer')) {
+      this.extensionManager.register(new MobileUXAnalyzer());
+    }
+
+    const result = await this.extensionManager.executeExtension(page, 'mobile-ux-analyzer', 'analyzeMobileUX');
+    if (!result.success || !result.data.success) {
+      throw new Error(`Mobile UX analysis failed: ${result.error || result.data.error}`);
+    }
+
+    const { score, isMobileFriendly, touchTargets } = result.data;
+    return {
+      score,
+      isMobileFriendly,
+      touchTargets: touchTargets.map((t: any) => ({
+        selector: t.selector,
+        tagName: t.tagName,
+        text: t.text,
+        width: t.width,
+        height: t.height,
+        severity: t.severity,
+        recommendation: t.recommendation,
+      })),
     };
   }
 
+  /**
+   * Elements wider than the viewport, using ResponsiveDesignInspector
+   */
+  async runViewportOverflowCheck(page: Page): Promise<LayoutAnalysis['viewportOverflows']> {
+    if (!this.extensionManager.getExtension('responsive-design-inspector')) {
+      this.extensionManager.register(new ResponsiveDesignInspector());
+    }
+
+    const result = await this.extensionManager.executeExtension(page, 'responsive-design-inspector', 'detectViewportOverflow');
+    if (!result.success || !result.data.success) {
+      throw new Error(`Viewport overflow check failed: ${result.error || result.data.error}`);
+    }
+
+    return result.data.elements.map((el: any) => ({
+      element: el.selector,
+      width: Math.round(el.width),
+      overflow: Math.round(el.overflow),
+    }));
+  }
+
+  /**
+   * axe-core tags covering a WCAG standard, including every lower level and version
+   * e.g. WCAG22AA → wcag2a, wcag2aa, wcag21a, wcag21aa, wcag22a, wcag22aa
+   */
+  private getAxeTags(standard: AccessibilityStandard): string[] {
+    const match = standard.match(/^WCAG2([12])(A{1,3})$/);
+    if (!match) {
+      throw new Error(`Unknown accessibility standard: ${standard}`);
+    }
+
+    const [, version, level] = match;
+    const versions = ['2', '21', '22'].slice(0, Number(version) + 1);
+    const levels = ['a', 'aa', 'aaa'].slice(0, level.length);
+
+    return versions.flatMap(v => levels.map(l => `wcag${v}${l}`));
+  }
+
   /**
    * Analyze page layout for common issues
    */
@@ -334,21 +911,77 @@ export class BrowserEngine {
       const elements: any[] = [];
       const overflows: any[] = [];
       const invisibleText: any[] = [];
+      const selectors = new Map<Element, string>();
+      const allElements = document.querySelectorAll('*');
+
+      // Ids and test ids are only anchors when unique, so count them in one pass
+      const idCounts = new Map<string, number>();
+      const testIdCounts = new Map<string, number>();
+      allElements.forEach((el) => {
+        const testId = el.getAttribute('data-testid');
+        if (el.id) idCounts.set(el.id, (idCounts.get(el.id) || 0) + 1);
+        if (testId) testIdCounts.set(testId, (testIdCounts.get(testId) || 0) + 1);
+      });
+
+      // nth-of-type steps, filled in for all children of a parent the first time one is needed
+      const steps = new Map<Element, string>();
+      const getStep = (el: Element, parent: Element): string => {
+        if (!steps.has(el)) {
+          const counts = new Map<string, number>();
+          Array.from(parent.children).forEach((child) => counts.set(child.tagName, (counts.get(child.tagName) || 0) + 1));
+          const seen = new Map<string, number>();
+          Array.from(parent.children).forEach((child) => {
+            const index = (seen.get(child.tagName) || 0) + 1;
+            seen.set(child.tagName, index);
+            const tag = child.tagName.toLowerCase();
+            steps.set(child, counts.get(child.tagName)! > 1 ? `${tag}:nth-of-type(${index})` : tag);
+          });
+        }
+        return steps.get(el)!;
+      };
+
+      // Build a selector that stays the same between runs: a unique id or test id when
+      // available, otherwise an nth-of-type path from the nearest such anchor
+      const getSelector = (el: Element): string => {
+        const cached = selectors.get(el);
+        if (cached) return cached;
+
+        let selector: string;
+        const testId = el.getAttribute('data-testid');
+        if (el.id && idCounts.get(el.id) === 1) {
+          selector = `#${CSS.escape(el.id)}`;
+        } else if (testId && testIdCounts.get(testId) === 1) {
+          selector = `[data-testid="${CSS.escape(testId)}"]`;
+        } else if (!el.parentElement) {
+          selector = el.tagName.toLowerCase();
+        } else {
+          const parent = el.parentElement;
+          const step = getStep(el, parent);
+          selector = parent.tagName === 'HTML' || parent.tagName === 'BODY'
+            ? `${parent.tagName.toLowerCase()} > ${step}`
+            : `${getSelector(parent)} > ${step}`;
+        }
+
+        selectors.set(el, selector);
+        return selector;
+      };
 
       // @ts-ignore - running in browser context
       // Get all visible elements
-      const allElements = document.querySelectorAll('*');
       allElements.forEach((el) => {
         const rect = el.getBoundingClientRect();
         // @ts-ignore - running in browser context
         const styles = window.getComputedStyle(el);
 
         if (rect.width > 0 && rect.height > 0) {
+          const selector = getSelector(el);
           elements.push({
-            selector: el.tagName.toLowerCase() + (el.id ? `#${el.id}` : ''),
+            selector,
+            parent: el.parentElement ? getSelector(el.parentElement) : undefined,
+            // Document coordinates, so scroll position does not affect comparisons
             boundingBox: {
-              x: rect.x,
-              y: rect.y,
+              x: rect.x + window.scrollX,
+              y: rect.y + window.scrollY,
               width: rect.width,
               height: rect.height,
             },
@@ -358,10 +991,14 @@ export class BrowserEngine {
 
           // Check for overflow
           if (el.scrollWidth > el.clientWidth || el.scrollHeight > el.clientHeight) {
+            const clips = (value: string) => value === 'hidden' || value === 'clip';
+            const hasText = Array.from(el.childNodes).some((node) => node.nodeType === Node.TEXT_NODE && node.textContent.trim());
             overflows.push({
-              element: el.tagName.toLowerCase() + (el.id ? `#${el.id}` : ''),
+              element: selector,
               overflowX: el.scrollWidth - el.clientWidth,
               overflowY: el.scrollHeight - el.clientHeight,
+              truncated: hasText && (styles.textOverflow === 'ellipsis' || clips(styles.overflowX) || clips(styles.overflowY)),
+              scrollable: ['auto', 'scroll'].includes(styles.overflowX) || ['auto', 'scroll'].includes(styles.overflowY),
             });
           }
 
@@ -372,7 +1009,7 @@ export class BrowserEngine {
             // Simplified check - real implementation would calculate contrast ratio
             if (textColor === bgColor) {
               invisibleText.push({
-                element: el.tagName.toLowerCase() + (el.id ? `#${el.id}` : ''),
+                element: selector,
                 reason: 'Text color matches background',
               });
             }
@@ -430,19 +1067,117 @@ export class BrowserEngine {
     }
 
     const resolvedViewport = viewport 
-      ? (typeof viewport === 'string' ? VIEWPORT_PRESETS[viewport] : viewport)
-      : VIEWPORT_PRESETS.desktop;
+      ? this.viewportResolver.resolve(viewport)
+      : this.viewportResolver.resolve('desktop');
 
-    const page = await this.browser.newPage({
-      viewport: resolvedViewport,
-      deviceScaleFactor: resolvedViewport.deviceScaleFactor,
-    });
+    const page = await this.browser.newPage(this.getContextOptions(resolvedViewport));
+    await this.addAuthCookies(page.context(), url);
+    await this.applyEmulation(page, this.emulation);
+
+    // Record console output and errors from the first request on
+    const monitor = new RuntimeMonitor();
+    monitor.attach(page);
+    this.runtimeMonitors.set(page, monitor);
 
     await page.goto(url, { waitUntil: 'networkidle' });
 
     return page;
   }
 
+  /**
+   * Options for a new page or context: viewport plus configured credentials and locale
+   */
+  private getContextOptions(viewport: Viewport, locale: LocaleOptions = this.locale): BrowserContextOptions {
+    const { storageState, httpCredentials } = this.auth;
+    const headers = {
+      ...this.auth.headers,
+      ...(locale.acceptLanguage ? { 'Accept-Language': locale.acceptLanguage } : {}),
+    };
+
+    if (storageState && !fs.existsSync(storageState)) {
+      throw new Error(`Storage state file not found: ${storageState}. Record one with \`uisentinel auth record <url>\`.`);
+    }
+
+    return {
+      viewport: { width: viewport.width, height: viewport.height },
+      deviceScaleFactor: viewport.deviceScaleFactor,
+      // Firefox has no mobile viewport emulation and rejects the option
+      ...(viewport.isMobile !== undefined && this.browserName !== 'firefox' ? { isMobile: viewport.isMobile } : {}),
+      ...(viewport.hasTouch !== undefined ? { hasTouch: viewport.hasTouch } : {}),
+      ...(viewport.userAgent ? { userAgent: viewport.userAgent } : {}),
+      ...(storageState ? { storageState } : {}),
+      ...(headers && Object.keys(headers).length > 0 ? { extraHTTPHeaders: headers } : {}),
+      ...(httpCredentials ? { httpCredentials } : {}),
+      ...(locale.locale ? { locale: locale.locale } : {}),
+      ...(locale.timezoneId ? { timezoneId: locale.timezoneId } : {}),
+      ...(locale.geolocation ? { geolocation: locale.geolocation, permissions: ['geolocation'] } : {}),
+    };
+  }
+
+  /**
+   * Emulate media features before the page loads so media queries match from the start
+   */
+  private async applyEmulation(page: Page, emulation: MediaEmulation): Promise<void> {
+    if (Object.values(emulation).every(value => value === undefined)) {
+      return;
+    }
+
+    await page.emulateMedia({
+      colorScheme: emulation.colorScheme,
+      reducedMotion: emulation.reducedMotion,
+      forcedColors: emulation.forcedColors,
+      media: emulation.media,
+    });
+  }
+
+  /**
+   * Add configured cookies; cookies without a url or domain are scoped to the page being captured
+   */
+  private async addAuthCookies(context: BrowserContext, url: string): Promise<void> {
+    const cookies = this.getAuthCookies(url);
+    if (cookies.length > 0) {
+      await context.addCookies(cookies);
+    }
+  }
+
+  /**
+   * Configured cookies completed for the captured URL, in the form addCookies accepts
+   * Playwright rejects a cookie with both url and path, so a path scopes by domain instead
+   */
+  getAuthCookies(url: string): AuthCookie[] {
+    return (this.auth.cookies || []).map((cookie) => {
+      if (cookie.domain) {
+        return { path: '/', ...cookie };
+      }
+      if (!cookie.path) {
+        return cookie.url ? cookie : { ...cookie, url: new URL(url).origin };
+      }
+
+      const { url: cookieUrl, ...rest } = cookie;
+      const origin = new URL(cookieUrl || url);
+      return { ...rest, domain: origin.hostname, secure: rest.secure ?? origin.protocol === 'https:' };
+    });
+  }
+
+  /**
+   * Console messages, uncaught exceptions and failed requests recorded for a page from createPage()
+   */
+  getRuntimeReport(page: Page): RuntimeReport | undefined {
+    return this.runtimeMonitors.get(page)?.getReport();
+  }
+
+  /**
+   * Close a page from createPage() and return what happened at runtime while it was open
+   */
+  async closePage(page: Page): Promise<RuntimeReport | undefined> {
+    const monitor = this.runtimeMonitors.get(page);
+    monitor?.detach();
+    this.runtimeMonitors.delete(page);
+
+    await page.close();
+    return monitor?.getReport();
+  }
+
   /**
    * Close the browser
    */
@@ -454,22 +1189,11 @@ export class BrowserEngine {
   }
 
   private resolveViewports(viewports: (ViewportPreset | Viewport)[]): Viewport[] {
-    return viewports.map((v) => {
-      if (typeof v === 'string') {
-        return VIEWPORT_PRESETS[v];
-      }
-      return v;
-    });
+    return viewports.map(v => this.viewportResolver.resolve(v));
   }
 
   private getViewportName(viewport: Viewport): string {
-    // Try to match with preset
-    for (const [name, preset] of Object.entries(VIEWPORT_PRESETS)) {
-      if (preset.width === viewport.width && preset.height === viewport.height) {
-        return name;
-      }
-    }
-    return `${viewport.width}x${viewport.height}`;
+    return this.viewportResolver.getName(viewport);
   }
 
   private ensureOutputDir(): void {
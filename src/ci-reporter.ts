@@ -0,0 +1,445 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ValidationResult } from './types';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+interface CheckOutcome {
+  name: string;
+  failure?: { message: string; details: string[] };
+  error?: string;
+}
+
+interface SarifRule {
+  id: string;
+  shortDescription: { text: string };
+  helpUri?: string;
+  properties?: Record<string, any>;
+}
+
+// Artifact for results that have neither a scenario file nor a screenshot
+const CONFIG_FILE = 'uisentinel.config.js';
+
+/**
+ * Version of the nearest package.json above this module
+ */
+function readPackageVersion(): string {
+  let dir = __dirname;
+  while (!fs.existsSync(path.join(dir, 'package.json'))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return '0.0.0';
+    }
+    dir = parent;
+  }
+  const packageJson: { version?: string } = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8'));
+  return packageJson.version || '0.0.0';
+}
+
+/**
+ * Converts validation results into formats CI tooling ingests: JUnit XML and SARIF 2.1.0
+ */
+export class CIReporter {
+  constructor(private toolVersion: string = readPackageVersion()) {}
+
+  /**
+   * One testsuite per route/viewport/browser, one testcase per check that ran
+   */
+  toJUnit(results: ValidationResult[]): string {
+    let tests = 0;
+    let failures = 0;
+    let errors = 0;
+    const suites: string[] = [];
+
+    results.forEach((result) => {
+      const suiteName = this.describeResult(result);
+      const checks = this.getCheckOutcomes(result);
+      const suiteFailures = checks.filter(c => c.failure).length;
+      const suiteErrors = checks.filter(c => c.error).length;
+
+      tests += checks.length;
+      failures += suiteFailures;
+      errors += suiteErrors;
+
+      const cases = checks.map((check) => {
+        const open = `    <testcase classname="${this.escapeXml(suiteName)}" name="${this.escapeXml(check.name)}" time="0"`;
+        if (check.error) {
+          return `${open}>\n      <error message="${this.escapeXml(check.error)}" type="${check.name}"/>\n    </testcase>`;
+        }
+        if (check.failure) {
+          return `${open}>\n      <failure message="${this.escapeXml(check.failure.message)}" type="${check.name}">${
+            this.escapeXml(check.failure.details.join('\n'))
+          }</failure>\n    </testcase>`;
+        }
+        return `${open}/>`;
+      });
+
+      suites.push([
+        `  <testsuite name="${this.escapeXml(suiteName)}" tests="${checks.length}" failures="${suiteFailures}" errors="${suiteErrors}" skipped="0" timestamp="${this.escapeXml(result.timestamp)}" time="0">`,
+        `    <properties>`,
+        `      <property name="url" value="${this.escapeXml(result.url)}"/>`,
+        `    </properties>`,
+        ...cases,
+        `  </testsuite>`,
+      ].join('\n'));
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="uisentinel" tests="${tests}" failures="${failures}" errors="${errors}">`,
+      ...suites,
+      '</testsuites>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * SARIF log with one result per finding; element selectors become logical locations
+   */
+  toSARIF(results: ValidationResult[]): object {
+    const rules = new Map<string, SarifRule>();
+    const sarifResults: any[] = [];
+
+    const addRule = (rule: SarifRule) => {
+      if (!rules.has(rule.id)) {
+        rules.set(rule.id, rule);
+      }
+    };
+    // Code scanning only shows results with a file, so the scenario file or else the screenshot
+    // stands in for the page; the URL and selector are logical locations
+    const artifact = (result: ValidationResult): string => {
+      const file = result.scenarioSource || result.screenshots[0]?.path || CONFIG_FILE;
+      return path.relative(process.cwd(), path.resolve(file)).split(path.sep).join('/');
+    };
+    const location = (result: ValidationResult, selector?: string, message?: string) => ({
+      physicalLocation: { artifactLocation: { uri: artifact(result) } },
+      logicalLocations: [
+        { fullyQualifiedName: result.url, kind: 'resource' },
+        ...(selector ? [{ fullyQualifiedName: selector, kind: 'element' }] : []),
+      ],
+      ...(message ? { message: { text: message } } : {}),
+    });
+    const properties = (result: ValidationResult) => ({
+      url: result.url,
+      ...(result.route ? { route: result.route } : {}),
+      ...(result.viewport ? { viewport: result.viewport } : {}),
+      ...(result.browser ? { browser: result.browser } : {}),
+      ...(result.theme ? { theme: result.theme } : {}),
+      ...(result.locale ? { locale: result.locale } : {}),
+    });
+
+    results.forEach((result) => {
+      result.accessibility?.violations.forEach((violation) => {
+        const ruleId = `axe/${violation.id}`;
+        addRule({
+          id: ruleId,
+          shortDescription: { text: violation.help },
+          helpUri: violation.helpUrl,
+          properties: { tags: ['accessibility'] },
+        });
+        sarifResults.push({
+          ruleId,
+          level: this.getLevel(violation.impact),
+          message: { text: `${violation.help} (${violation.nodes.length} element${violation.nodes.length === 1 ? '' : 's'} on ${this.describeResult(result)})` },
+          locations: violation.nodes.map(node => location(result, node.target.join(' '), node.failureSummary)),
+          properties: { ...properties(result), impact: violation.impact },
+        });
+      });
+
+      result.contrast?.issues.forEach((issue) => {
+        addRule({
+          id: 'uisentinel/color-contrast',
+          shortDescription: { text: 'Text contrast meets WCAG AA' },
+          properties: { tags: ['accessibility', 'contrast'] },
+        });
+        sarifResults.push({
+          ruleId: 'uisentinel/color-contrast',
+          level: this.getLevel(issue.severity),
+          message: { text: `Contrast ${issue.ratio}:1 is below ${issue.required}:1 (${issue.foreground} on ${issue.background})` },
+          locations: [location(result, issue.selector)],
+          properties: properties(result),
+        });
+      });
+
+      result.mobileUX?.touchTargets.forEach((target) => {
+        addRule({
+          id: 'uisentinel/touch-target-size',
+          shortDescription: { text: 'Touch targets are at least 44×44px' },
+          properties: { tags: ['mobile', 'accessibility'] },
+        });
+        sarifResults.push({
+          ruleId: 'uisentinel/touch-target-size',
+          level: target.severity === 'critical' ? 'error' : target.severity === 'high' ? 'warning' : 'note',
+          message: { text: target.recommendation },
+          locations: [location(result, target.selector)],
+          properties: properties(result),
+        });
+      });
+
+      result.runtime?.pageErrors.forEach((pageError) => {
+        addRule({
+          id: 'uisentinel/page-error',
+          shortDescription: { text: 'Page runs without uncaught exceptions' },
+          properties: { tags: ['runtime'] },
+        });
+        sarifResults.push({
+          ruleId: 'uisentinel/page-error',
+          level: 'error',
+          message: { text: `Uncaught exception: ${pageError.message}` },
+          locations: [location(result)],
+          properties: { ...properties(result), ...(pageError.stack ? { stack: pageError.stack } : {}) },
+        });
+      });
+
+      result.runtime?.console.error.forEach((message) => {
+        addRule({
+          id: 'uisentinel/console-error',
+          shortDescription: { text: 'Page logs no console errors' },
+          properties: { tags: ['runtime'] },
+        });
+        sarifResults.push({
+          ruleId: 'uisentinel/console-error',
+          level: 'warning',
+          message: { text: message.text },
+          locations: [location(result, undefined, message.url ? `${message.url}:${message.line}` : undefined)],
+          properties: properties(result),
+        });
+      });
+
+      result.i18n?.issues.forEach((issue) => {
+        addRule({
+          id: 'uisentinel/i18n-overflow',
+          shortDescription: { text: 'Translated text fits its container' },
+          properties: { tags: ['i18n', 'layout'] },
+        });
+        sarifResults.push({
+          ruleId: 'uisentinel/i18n-overflow',
+          level: 'warning',
+          message: { text: `${issue.description} (compared with ${result.i18n.reference})` },
+          locations: [location(result, issue.element)],
+          properties: { ...properties(result), type: issue.type },
+        });
+      });
+
+      result.assertions?.filter(assertion => !assertion.passed).forEach((assertion) => {
+        addRule({
+          id: 'uisentinel/assertion-failed',
+          shortDescription: { text: 'Assert actions pass' },
+          properties: { tags: ['assertion'] },
+        });
+        sarifResults.push({
+          ruleId: 'uisentinel/assertion-failed',
+          level: 'error',
+          message: { text: `Step ${assertion.step}: ${assertion.description} - expected ${assertion.expected}, got ${assertion.actual}` },
+          locations: [location(result)],
+          properties: { ...properties(result), step: assertion.step },
+        });
+      });
+
+      result.network?.httpErrors.forEach((request) => {
+        addRule({
+          id: 'uisentinel/http-error',
+          shortDescription: { text: 'Resources load without 4xx/5xx responses' },
+          properties: { tags: ['network'] },
+        });
+        sarifResults.push({
+          ruleId: 'uisentinel/http-error',
+          level: request.status >= 500 ? 'error' : 'warning',
+          message: { text: `${request.url} returned ${request.status}` },
+          locations: [location(result)],
+          properties: { ...properties(result), resourceType: request.resourceType },
+        });
+      });
+
+      result.network?.mixedContent.forEach((issue) => {
+        addRule({
+          id: 'uisentinel/mixed-content',
+          shortDescription: { text: 'HTTPS pages load no resources over HTTP' },
+          properties: { tags: ['network', 'security'] },
+        });
+        sarifResults.push({
+          ruleId: 'uisentinel/mixed-content',
+          level: issue.blocked ? 'error' : 'warning',
+          message: { text: `Mixed content${issue.blocked ? ' blocked' : ''}: ${issue.url}` },
+          locations: [location(result)],
+          properties: properties(result),
+        });
+      });
+
+      if (result.visualDiff && !result.visualDiff.passed) {
+        const changed = result.visualDiff.structural?.changes || [];
+        addRule({
+          id: 'uisentinel/visual-regression',
+          shortDescription: { text: 'Screenshot matches its baseline' },
+          properties: { tags: ['visual'] },
+        });
+        sarifResults.push({
+          ruleId: 'uisentinel/visual-regression',
+          level: 'error',
+          message: { text: `${result.visualDiff.diffPercentage}% of pixels differ from the baseline (threshold ${result.visualDiff.threshold}%)` },
+          locations: changed.length > 0
+            ? changed.map(change => location(result, change.selector, change.description))
+            : [location(result)],
+          properties: { ...properties(result), diffPath: result.visualDiff.diffPath },
+        });
+      }
+    });
+
+    return {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: 'uisentinel',
+            version: this.toolVersion,
+            informationUri: 'https://github.com/mhjabreel/uisentinel',
+            rules: Array.from(rules.values()),
+          },
+        },
+        results: sarifResults,
+      }],
+    };
+  }
+
+  /**
+   * Outcome of every check that ran for a result
+   */
+  private getCheckOutcomes(result: ValidationResult): CheckOutcome[] {
+    const checks: CheckOutcome[] = [];
+
+    checks.push(result.screenshots.length === 0 && result.errors.length > 0
+      ? { name: 'capture', error: result.errors.join('; ') }
+      : { name: 'capture' });
+
+    if (result.accessibility) {
+      const { violations } = result.accessibility;
+      checks.push({
+        name: 'accessibility',
+        failure: violations.length > 0 ? {
+          message: `${violations.length} accessibility violation${violations.length === 1 ? '' : 's'} (${result.accessibility.wcagLevel})`,
+          details: violations.map(v => `[${v.impact}] ${v.id}: ${v.help} - ${v.nodes.map(n => n.target.join(' ')).join(', ')}`),
+        } : undefined,
+      });
+    }
+
+    if (result.contrast) {
+      const { issues } = result.contrast;
+      checks.push({
+        name: 'contrast',
+        failure: issues.length > 0 ? {
+          message: `${issues.length} element${issues.length === 1 ? '' : 's'} below WCAG AA contrast`,
+          details: issues.map(i => `[${i.severity}] ${i.selector}: ${i.ratio}:1, needs ${i.required}:1`),
+        } : undefined,
+      });
+    }
+
+    if (result.mobileUX) {
+      const { touchTargets } = result.mobileUX;
+      checks.push({
+        name: 'touch-targets',
+        failure: touchTargets.length > 0 ? {
+          message: `${touchTargets.length} touch target${touchTargets.length === 1 ? '' : 's'} smaller than 44×44px`,
+          details: touchTargets.map(t => `[${t.severity}] ${t.selector}: ${t.width}×${t.height}px`),
+        } : undefined,
+      });
+    }
+
+    if (result.runtime) {
+      const { pageErrors, console: messages } = result.runtime;
+      const problems = [
+        ...pageErrors.map(e => `Uncaught exception: ${e.message}`),
+        ...messages.error.map(m => `Console error: ${m.text}`),
+      ];
+      checks.push({
+        name: 'runtime',
+        failure: problems.length > 0 ? {
+          message: `${pageErrors.length} uncaught exception${pageErrors.length === 1 ? '' : 's'}, ${messages.error.length} console error${messages.error.length === 1 ? '' : 's'}`,
+          details: problems,
+        } : undefined,
+      });
+    }
+
+    if (result.i18n) {
+      const { issues, reference } = result.i18n;
+      checks.push({
+        name: 'i18n-layout',
+        failure: issues.length > 0 ? {
+          message: `${issues.length} layout issue${issues.length === 1 ? '' : 's'} compared with ${reference}`,
+          details: issues.map(i => i.description),
+        } : undefined,
+      });
+    }
+
+    if (result.assertions) {
+      const failed = result.assertions.filter(a => !a.passed);
+      checks.push({
+        name: 'assertions',
+        failure: failed.length > 0 ? {
+          message: `${failed.length} of ${result.assertions.length} assertion${result.assertions.length === 1 ? '' : 's'} failed`,
+          details: failed.map(a => `Step ${a.step}: ${a.description} - expected ${a.expected}, got ${a.actual}`),
+        } : undefined,
+      });
+    }
+
+    if (result.network) {
+      const { httpErrors, mixedContent } = result.network;
+      const problems = [
+        ...httpErrors.map(r => `${r.url} returned ${r.status}`),
+        ...mixedContent.map(m => `Mixed content${m.blocked ? ' blocked' : ''}: ${m.url}`),
+      ];
+      checks.push({
+        name: 'network',
+        failure: problems.length > 0 ? {
+          message: `${problems.length} network problem${problems.length === 1 ? '' : 's'}`,
+          details: problems,
+        } : undefined,
+      });
+    }
+
+    if (result.visualDiff) {
+      const diff = result.visualDiff;
+      checks.push({
+        name: 'visual-diff',
+        failure: diff.passed ? undefined : {
+          message: `${diff.diffPercentage}% of pixels differ (threshold ${diff.threshold}%)`,
+          details: [...(diff.structural?.summary || []), ...(diff.diffPath ? [`Diff: ${diff.diffPath}`] : [])],
+        },
+      });
+    }
+
+    return checks;
+  }
+
+  private getLevel(impact: string): SarifLevel {
+    switch (impact) {
+      case 'critical':
+      case 'serious':
+        return 'error';
+      case 'moderate':
+        return 'warning';
+      default:
+        return 'note';
+    }
+  }
+
+  private describeResult(result: ValidationResult): string {
+    if (result.scenario) {
+      return result.scenario;
+    }
+    if (result.route) {
+      const context = [result.viewport, result.browser, result.theme, result.locale].filter(Boolean).join(', ');
+      return context ? `${result.route} (${context})` : result.route;
+    }
+    return result.url;
+  }
+
+  private escapeXml(text: string): string {
+    return String(text)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
@@ -4,11 +4,14 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import prompts from 'prompts';
+import * as yaml from 'js-yaml';
 import * as fs from 'fs';
 import * as path from 'path';
 import { UISentinel } from './index';
-import { ViewportPreset } from './types';
+import { ViewportPreset, DimensionMismatchPolicy, Region, AccessibilityStandard, ReportFormat, BrowserName, AuthOptions, MediaEmulation, LocaleOptions, VisionDeficiency, ColorOnlySignal } from './types';
 import { loadConfig } from './config-loader';
+import { ViewportResolver } from './viewport-resolver';
+import { ScenarioLoader } from './scenario-loader';
 
 const program = new Command();
 
@@ -64,10 +67,232 @@ function getConfigDefaults() {
   return {
     outputDir: cachedConfig.output?.directory || './uisentinel-output',
     headless: cachedConfig.headless ?? true,
+    browsers: getBrowsers(cachedConfig.browsers),
     timeout: cachedConfig.timeout || 30000,
+    accessibility: cachedConfig.accessibility,
+    auth: getAuth(cachedConfig.auth),
+    emulation: getEmulation(cachedConfig.emulation),
+    locale: getLocale(cachedConfig.locale),
+    viewportPresets: cachedConfig.viewportPresets || {},
+    project: { ...cachedConfig.project, ...(program.opts().app ? { app: program.opts().app } : {}) },
   };
 }
 
+/**
+ * Locale, timezone and geolocation from the global options, layered over config.locale
+ */
+function getLocale(configLocale: LocaleOptions = {}): LocaleOptions {
+  const options = program.opts();
+  const locale: LocaleOptions = { ...configLocale };
+
+  if (options.locale) {
+    locale.locale = options.locale;
+  }
+  if (options.timezone) {
+    locale.timezoneId = options.timezone;
+  }
+  if (options.acceptLanguage) {
+    locale.acceptLanguage = options.acceptLanguage;
+  }
+  if (options.geolocation) {
+    const [latitude, longitude] = String(options.geolocation).split(',').map((v: string) => parseFloat(v));
+    if (isNaN(latitude) || isNaN(longitude)) {
+      console.error(chalk.red('Invalid --geolocation. Use "latitude,longitude", e.g. "52.52,13.40".'));
+      process.exit(1);
+    }
+    locale.geolocation = { latitude, longitude };
+  }
+
+  return locale;
+}
+
+/**
+ * Media emulation from the global options, layered over config.emulation
+ */
+function getEmulation(configEmulation: MediaEmulation = {}): MediaEmulation {
+  const options = program.opts();
+  const emulation: MediaEmulation = { ...configEmulation };
+
+  if (options.colorScheme) {
+    if (!['light', 'dark', 'no-preference'].includes(options.colorScheme)) {
+      console.error(chalk.red(`Unknown color scheme: ${options.colorScheme}. Use light, dark or no-preference.`));
+      process.exit(1);
+    }
+    emulation.colorScheme = options.colorScheme;
+  }
+  if (options.reducedMotion) {
+    emulation.reducedMotion = 'reduce';
+  }
+  if (options.forcedColors) {
+    emulation.forcedColors = 'active';
+  }
+  if (options.media) {
+    if (!['screen', 'print'].includes(options.media)) {
+      console.error(chalk.red(`Unknown media type: ${options.media}. Use screen or print.`));
+      process.exit(1);
+    }
+    emulation.media = options.media;
+  }
+
+  return emulation;
+}
+
+/**
+ * Credentials from the global auth options, layered over config.auth
+ */
+function getAuth(configAuth: AuthOptions = {}): AuthOptions {
+  const options = program.opts();
+  const auth: AuthOptions = { ...configAuth };
+
+  if (options.storageState) {
+    auth.storageState = options.storageState;
+  }
+
+  if (options.header?.length) {
+    auth.headers = { ...auth.headers };
+    for (const header of options.header as string[]) {
+      const separator = header.indexOf(':');
+      if (separator <= 0) {
+        console.error(chalk.red(`Invalid header "${header}". Use "Name: value".`));
+        process.exit(1);
+      }
+      auth.headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+    }
+  }
+
+  if (options.cookie?.length) {
+    auth.cookies = [...(auth.cookies || [])];
+    for (const cookie of options.cookie as string[]) {
+      const separator = cookie.indexOf('=');
+      if (separator <= 0) {
+        console.error(chalk.red(`Invalid cookie "${cookie}". Use "name=value".`));
+        process.exit(1);
+      }
+      auth.cookies.push({ name: cookie.slice(0, separator).trim(), value: cookie.slice(separator + 1) });
+    }
+  }
+
+  if (options.httpCredentials) {
+    const separator = options.httpCredentials.indexOf(':');
+    if (separator <= 0) {
+      console.error(chalk.red('Invalid --http-credentials. Use "username:password".'));
+      process.exit(1);
+    }
+    auth.httpCredentials = {
+      username: options.httpCredentials.slice(0, separator),
+      password: options.httpCredentials.slice(separator + 1),
+    };
+  }
+
+  return auth;
+}
+
+/**
+ * Browsers from the global --browser option, falling back to config
+ */
+function getBrowsers(configBrowsers?: BrowserName[]): BrowserName[] | undefined {
+  const option: string | undefined = program.opts().browser;
+  if (!option) {
+    return configBrowsers;
+  }
+
+  const browsers = option.split(',').map((b) => b.trim().toLowerCase());
+  const invalid = browsers.filter((b) => !['chromium', 'firefox', 'webkit'].includes(b));
+  if (invalid.length > 0) {
+    console.error(chalk.red(`Unknown browser: ${invalid.join(', ')}. Use chromium, firefox or webkit.`));
+    process.exit(1);
+  }
+  return browsers as BrowserName[];
+}
+
+/**
+ * Create a UISentinel for route-based commands (validate, baseline, diff)
+ * Command-line options override uisentinel.config.js
+ */
+function createRouteSentinel(options: {
+  project?: string;
+  url?: string;
+  routes?: string;
+  viewports?: string;
+  a11y?: boolean;
+  contrast?: boolean;
+  mobileUx?: boolean;
+  standard?: string;
+  threshold?: string;
+  pixelThreshold?: string;
+  includeAa?: boolean;
+  dimensionPolicy?: string;
+  ignore?: string[];
+  format?: string;
+  failOnPageError?: boolean;
+  network?: boolean;
+  themeMatrix?: boolean;
+  locales?: string;
+  output?: string;
+}): { sentinel: UISentinel; outputDir: string } {
+  const config = loadConfig();
+  const configDefaults = getConfigDefaults();
+  const outputDir = options.output || configDefaults.outputDir;
+
+  if (options.dimensionPolicy && !['fail', 'pad', 'crop'].includes(options.dimensionPolicy)) {
+    console.error(chalk.red(`Unknown dimension policy: ${options.dimensionPolicy}. Use fail, pad or crop.`));
+    process.exit(1);
+  }
+  const pixelThreshold = options.pixelThreshold !== undefined ? Number(options.pixelThreshold) : undefined;
+  if (pixelThreshold !== undefined && (isNaN(pixelThreshold) || pixelThreshold < 0 || pixelThreshold > 1)) {
+    console.error(chalk.red(`Invalid --pixel-threshold: ${options.pixelThreshold}. Use a number from 0 to 1, e.g. 0.1.`));
+    process.exit(1);
+  }
+  const threshold = options.threshold !== undefined ? Number(options.threshold) : undefined;
+  if (threshold !== undefined && (isNaN(threshold) || threshold < 0 || threshold > 100)) {
+    console.error(chalk.red(`Invalid --threshold: ${options.threshold}. Use a percentage from 0 to 100, e.g. 0.1.`));
+    process.exit(1);
+  }
+
+  const sentinel = new UISentinel({
+    ...config,
+    projectPath: options.project ? path.resolve(options.project) : config.projectPath,
+    host: options.url || config.host,
+    headless: configDefaults.headless,
+    browsers: configDefaults.browsers,
+    auth: configDefaults.auth,
+    emulation: configDefaults.emulation,
+    locale: configDefaults.locale,
+    viewportPresets: configDefaults.viewportPresets,
+    project: configDefaults.project,
+    timeout: configDefaults.timeout,
+    failOnPageError: options.failOnPageError ?? config.failOnPageError,
+    routes: options.routes ? options.routes.split(',').map((r: string) => r.trim()) : config.routes,
+    viewports: options.viewports
+      ? options.viewports.split(',').map((v: string) => v.trim()) as ViewportPreset[]
+      : config.viewports,
+    accessibility: {
+      enabled: options.a11y !== false && (config.accessibility?.enabled ?? true),
+      standard: (options.standard as AccessibilityStandard) || config.accessibility?.standard || 'WCAG21AA',
+      ignore: config.accessibility?.ignore,
+    },
+    contrast: { enabled: options.contrast ?? config.contrast?.enabled ?? false },
+    mobileUX: { enabled: options.mobileUx ?? config.mobileUX?.enabled ?? false },
+    network: { ...config.network, enabled: options.network ?? config.network?.enabled ?? false },
+    themeMatrix: { ...config.themeMatrix, enabled: options.themeMatrix ?? config.themeMatrix?.enabled ?? false },
+    i18n: {
+      ...config.i18n,
+      locales: options.locales ? options.locales.split(',').map((l: string) => l.trim()) : config.i18n?.locales,
+    },
+    visualDiff: {
+      ...config.visualDiff,
+      threshold: threshold ?? config.visualDiff?.threshold ?? 0.1,
+      pixelThreshold: pixelThreshold ?? config.visualDiff?.pixelThreshold,
+      includeAA: options.includeAa ?? config.visualDiff?.includeAA,
+      dimensionPolicy: (options.dimensionPolicy as DimensionMismatchPolicy) || config.visualDiff?.dimensionPolicy,
+      ignore: [...(config.visualDiff?.ignore || []), ...(options.ignore || [])],
+    },
+    output: { directory: outputDir, format: (options.format as ReportFormat) || config.output?.format || 'json' },
+  });
+
+  return { sentinel, outputDir };
+}
+
 // ASCII Art Banner
 function showBanner() {
   console.log('');
@@ -98,10 +323,52 @@ program.on('--help', () => {
   console.log(chalk.gray('📖 Documentation: https://github.com/mhjabreel/uisentinel\n'));
 });
 
+/**
+ * Gather a repeatable option into a list; variadic options would swallow the command after them
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 program
   .name('uisentinel')
   .description('👁️  Visual validation toolkit for AI coding agents')
-  .version('0.2.1');
+  .version('0.2.1')
+  .option('--browser <browsers>', 'Browser engine(s), comma-separated: chromium, firefox, webkit (defaults to config or chromium)')
+  .option('--storage-state <path>', 'Playwright storage state file to start pages logged in (see `auth record`)')
+  .option('--header <header>', 'Extra HTTP header sent with every request, e.g. "Authorization: Bearer abc" (repeatable)', collect, [])
+  .option('--cookie <cookie>', 'Cookie set on the captured origin, e.g. "session=abc123" (repeatable)', collect, [])
+  .option('--http-credentials <user:password>', 'HTTP basic auth credentials')
+  .option('--color-scheme <scheme>', 'Emulate prefers-color-scheme: light, dark, no-preference')
+  .option('--reduced-motion', 'Emulate prefers-reduced-motion: reduce')
+  .option('--forced-colors', 'Emulate forced colors (high contrast mode)')
+  .option('--media <type>', 'Emulate CSS media type: screen, print')
+  .option('--locale <locale>', 'Browser locale, e.g. de-DE (sets navigator.language and Accept-Language)')
+  .option('--timezone <id>', 'Timezone, e.g. Europe/Berlin')
+  .option('--geolocation <lat,long>', 'Geolocation, e.g. 52.52,13.40 (grants the permission)')
+  .option('--accept-language <value>', 'Accept-Language header, e.g. "ar,en;q=0.5"')
+  .option('--app <name>', 'Workspace app to start in a monorepo (see `detect-project`)');
+
+// Only route validation loops over browsers; other capturing commands open their pages in one
+const MULTI_BROWSER_COMMANDS = ['validate', 'diff', 'baseline save'];
+const NO_BROWSER_COMMANDS = ['detect-project', 'init', 'scenario-schema', 'devices', 'baseline list', 'baseline approve', 'baseline delete'];
+
+program.hook('preAction', (_program, actionCommand) => {
+  const parent = actionCommand.parent && actionCommand.parent !== program ? `${actionCommand.parent.name()} ` : '';
+  const command = `${parent}${actionCommand.name()}`;
+  if (MULTI_BROWSER_COMMANDS.includes(command) || NO_BROWSER_COMMANDS.includes(command)) {
+    return;
+  }
+
+  // Same rule whether the browsers come from --browser or from config
+  const [browser, ...skipped] = getConfigDefaults().browsers || [];
+  if (skipped.length > 0) {
+    console.warn(chalk.yellow(
+      `⚠ ${command} runs in one browser: using ${browser}, skipping ${skipped.join(', ')}. ` +
+      `Use ${MULTI_BROWSER_COMMANDS.join(', ')} to cover several.`
+    ));
+  }
+});
 
 program
   .command('detect-project')
@@ -112,13 +379,42 @@ program
 
     try {
       const { FrameworkDetector } = await import('./framework-detector');
-      const detector = new FrameworkDetector(options.project);
-      const result = await detector.detect();
-      const packageManager = detector.getPackageManager();
+      const { app } = getConfigDefaults().project;
+      const detector = new FrameworkDetector(options.project, app);
+      const workspace = await detector.detectWorkspace();
+
+      if (workspace) {
+        spinner.succeed('Workspace detected!');
+
+        console.log(chalk.bold('\n📦 Workspace:\n'));
+        console.log(chalk.cyan(`Tools: ${workspace.tools.join(', ')}`));
+        console.log(chalk.cyan(`Package Manager: ${workspace.packageManager}`));
+        console.log(chalk.cyan(`Apps: ${workspace.apps.length}`));
+        workspace.apps.forEach(app => {
+          console.log(chalk.gray(`  • ${app.name} (${app.framework}, port ${app.port}) - ${app.path}`));
+        });
+        spinner.start('Detecting app...');
+      }
+
+      let result;
+      try {
+        result = await detector.detect();
+      } catch (error) {
+        if (app || !workspace || workspace.apps.length < 2) {
+          throw error;
+        }
+        spinner.info('Several apps found');
+        console.log(chalk.yellow('\nChoose one with --app <name> or project.app in uisentinel.config.js\n'));
+        return;
+      }
+      const packageManager = result.workspace?.packageManager || detector.getPackageManager();
 
       spinner.succeed('Project detected!');
 
       console.log(chalk.bold('\n🔍 Project Detection Results:\n'));
+      if (result.app) {
+        console.log(chalk.cyan(`App: ${result.app.name} (${result.app.path})`));
+      }
       console.log(chalk.cyan(`Framework: ${result.framework}`));
       console.log(chalk.cyan(`Package Manager: ${packageManager}`));
       console.log(chalk.cyan(`Dev Command: ${result.command}`));
@@ -134,7 +430,11 @@ program
       }
 
       console.log(chalk.bold('\n💡 Suggested Usage:\n'));
-      console.log(chalk.gray(`  ${packageManager} ${result.command.startsWith('npm') ? 'run' : ''} ${result.command.replace('npm run ', '')}`));
+      if (result.app) {
+        console.log(chalk.gray(`  uisentinel validate --app ${result.app.name}`));
+      } else {
+        console.log(chalk.gray(`  ${packageManager} ${result.command.startsWith('npm') ? 'run' : ''} ${result.command.replace('npm run ', '')}`));
+      }
       console.log(chalk.gray(`  uisentinel capture --url http://localhost:${result.port}\n`));
 
     } catch (error) {
@@ -253,7 +553,9 @@ program
         message: 'Which WCAG accessibility standard should be used?',
         choices: [
           { title: 'WCAG 2.1 AA - Recommended (4.5:1 contrast, 44px touch targets)', value: 'WCAG21AA' },
+          { title: 'WCAG 2.2 AA - Latest (adds target size, focus appearance, dragging alternatives)', value: 'WCAG22AA' },
           { title: 'WCAG 2.1 AAA - Strict (7:1 contrast, enhanced requirements)', value: 'WCAG21AAA' },
+          { title: 'WCAG 2.2 AAA - Strictest (all WCAG 2.2 success criteria)', value: 'WCAG22AAA' },
         ],
         initial: 0,
       },
@@ -535,7 +837,7 @@ program
   .command('fullpage')
   .description('[AI Agent] Capture full page screenshot with smart scrolling')
   .requiredOption('-u, --url <url>', 'URL to capture')
-  .option('-d, --device <device>', 'Device: desktop, tablet, mobile, or custom', 'desktop')
+  .option('-d, --device <device>', 'Device: desktop, tablet, mobile, custom, a config preset, or a Playwright device such as "iPhone 13"', 'desktop')
   .option('--width <pixels>', 'Custom viewport width')
   .option('--height <pixels>', 'Custom viewport height')
   .option('--scroll-delay <ms>', 'Delay between scrolls for lazy loading', '500')
@@ -552,6 +854,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -606,7 +913,7 @@ program
   .command('fullpage-multi')
   .description('[AI Agent] Capture full page screenshots across multiple devices')
   .requiredOption('-u, --url <url>', 'URL to capture')
-  .option('-d, --devices <devices>', 'Comma-separated devices: desktop,tablet,mobile', 'desktop,tablet,mobile')
+  .option('-d, --devices <devices>', 'Comma-separated devices: presets or Playwright device names, e.g. "desktop,iPhone 13,Pixel 7"', 'desktop,tablet,mobile')
   .option('-e, --expectations <text>', 'Document what you expect to see/validate (hypothesis-driven testing)')
   .option('-n, --name <name>', 'Output directory name')
   .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
@@ -619,6 +926,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -630,7 +942,7 @@ program
       const devices = options.devices.split(',').map((d: string) => d.trim());
 
       const results = await sentinel.captureFullPageMulti(options.url, {
-        devices: devices as ('desktop' | 'tablet' | 'mobile')[],
+        devices: devices as ViewportPreset[],
         outputName: options.name,
         expectations: options.expectations,
       });
@@ -671,7 +983,7 @@ program
   .command('views')
   .description('[AI Agent] Capture view-by-view screenshots with window-wise scrolling')
   .requiredOption('-u, --url <url>', 'URL to capture')
-  .option('-d, --device <device>', 'Device: desktop, tablet, mobile, or custom', 'desktop')
+  .option('-d, --device <device>', 'Device: desktop, tablet, mobile, custom, a config preset, or a Playwright device such as "iPhone 13"', 'desktop')
   .option('--width <pixels>', 'Custom viewport width')
   .option('--height <pixels>', 'Custom viewport height')
   .option('--overlap <pixels>', 'Overlap between views in pixels', '50')
@@ -688,6 +1000,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -753,7 +1070,7 @@ program
   .command('views-multi')
   .description('[AI Agent] Capture view-by-view screenshots across multiple devices')
   .requiredOption('-u, --url <url>', 'URL to capture')
-  .option('-d, --devices <devices>', 'Comma-separated devices: desktop,tablet,mobile', 'desktop,tablet,mobile')
+  .option('-d, --devices <devices>', 'Comma-separated devices: presets or Playwright device names, e.g. "desktop,iPhone 13,Pixel 7"', 'desktop,tablet,mobile')
   .option('--overlap <pixels>', 'Overlap between views in pixels', '50')
   .option('-e, --expectations <text>', 'Document what you expect to see/validate (hypothesis-driven testing)')
   .option('-n, --name <name>', 'Output directory name')
@@ -767,6 +1084,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -778,7 +1100,7 @@ program
       const devices = options.devices.split(',').map((d: string) => d.trim());
 
       const results = await sentinel.captureViewsMulti(options.url, {
-        devices: devices as ('desktop' | 'tablet' | 'mobile')[],
+        devices: devices as ViewportPreset[],
         overlap: parseInt(options.overlap),
         outputName: options.name,
         expectations: options.expectations,
@@ -811,7 +1133,7 @@ program
   .description('[AI Agent] Inspect a specific element with optional interaction')
   .requiredOption('-u, --url <url>', 'URL to inspect')
   .requiredOption('-s, --selector <selector>', 'CSS selector of element to inspect')
-  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop', 'desktop')
+  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop, or a device name such as "iPhone 13"', 'desktop')
   .option('-a, --action <action>', 'Action to perform: click, hover, focus')
   .option('--no-capture-viewport', 'Skip viewport screenshot')
   .option('--no-capture-element', 'Skip element screenshot')
@@ -838,6 +1160,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -893,7 +1220,7 @@ program
   .command('analyze-responsive')
   .description('[AI Agent] Analyze responsive design patterns and fixed-width elements')
   .requiredOption('-u, --url <url>', 'URL to analyze')
-  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop', 'mobile')
+  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop, or a device name such as "iPhone 13"', 'mobile')
   .option('-e, --expectations <text>', 'Document what you expect to see/validate (hypothesis-driven testing)')
   .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
   .action(async (options) => {
@@ -905,6 +1232,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -1036,6 +1368,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -1158,7 +1495,8 @@ program
   .command('check-accessibility')
   .description('[AI Agent] Check accessibility compliance (WCAG)')
   .requiredOption('-u, --url <url>', 'URL to check')
-  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop', 'desktop')
+  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop, or a device name such as "iPhone 13"', 'desktop')
+  .option('-s, --standard <standard>', 'WCAG standard: WCAG21A, WCAG21AA, WCAG21AAA, WCAG22A, WCAG22AA, WCAG22AAA (defaults to config)')
   .option('-e, --expectations <text>', 'Document what you expect to see/validate (hypothesis-driven testing)')
   .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
   .action(async (options) => {
@@ -1173,6 +1511,12 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
+      accessibility: configDefaults.accessibility,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -1181,6 +1525,7 @@ program
 
       const data = await sentinel.checkAccessibility(options.url, {
         viewport: options.viewport,
+        standard: options.standard,
         expectations: options.expectations,
       });
 
@@ -1278,6 +1623,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -1330,12 +1680,217 @@ program
     }
   });
 
+program
+  .command('simulate-vision')
+  .description('[AI Agent] Render the page with color vision deficiencies and find color-only signals')
+  .requiredOption('-u, --url <url>', 'URL to capture')
+  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop, or a device name such as "iPhone 13"', 'desktop')
+  .option('-d, --deficiencies <list>', 'Comma-separated: protanopia, deuteranopia, tritanopia, achromatopsia (default: all)')
+  .option('--full-page', 'Capture the full page instead of the viewport')
+  .option('-e, --expectations <text>', 'Document what you expect to see/validate (hypothesis-driven testing)')
+  .option('-n, --name <name>', 'Output filename prefix')
+  .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
+  .action(async (options) => {
+    const configDefaults = getConfigDefaults();
+    const outputDir = options.output || configDefaults.outputDir;
+
+    const deficiencies = options.deficiencies
+      ? options.deficiencies.split(',').map((d: string) => d.trim().toLowerCase())
+      : undefined;
+    const unknown = (deficiencies || []).filter((d: string) => !['protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia'].includes(d));
+    if (unknown.length > 0) {
+      console.error(chalk.red(`Unknown deficiency: ${unknown.join(', ')}. Use protanopia, deuteranopia, tritanopia or achromatopsia.`));
+      process.exit(1);
+    }
+
+    // Save expectations to file
+    const expectationsFile = saveExpectations(options.expectations, outputDir, 'simulate-vision');
+
+    const ora = (await import('ora')).default;
+    const spinner = ora('Starting browser...').start();
+
+    const sentinel = new UISentinel({
+      headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
+      output: { directory: outputDir, format: 'json' },
+    });
+
+    try {
+      spinner.text = 'Simulating color vision deficiencies...';
+
+      const data = await sentinel.simulateVisionDeficiencies(options.url, {
+        viewport: options.viewport,
+        deficiencies: deficiencies as VisionDeficiency[],
+        fullPage: options.fullPage,
+        outputName: options.name,
+        expectations: options.expectations,
+      });
+
+      await sentinel.close();
+      spinner.succeed('Vision simulation complete!');
+
+      console.log(chalk.bold('\n👓 Color Vision Simulation:\n'));
+      console.log(chalk.cyan(`Method: ${data.method === 'cdp' ? 'Chromium vision deficiency emulation' : 'SVG color matrix filter'}`));
+      data.screenshots.forEach((s: { deficiency: string; path: string }) => {
+        console.log(chalk.gray(`  ${s.deficiency.padEnd(14)} ${s.path}`));
+      });
+      console.log(chalk.cyan(`Grid: ${data.gridPath}`));
+
+      if (data.colorOnlySignals.length > 0) {
+        console.log(chalk.bold(`\n⚠ Color-only signals (${data.colorOnlySignals.length}):`));
+        data.colorOnlySignals.slice(0, 5).forEach((signal: ColorOnlySignal, i: number) => {
+          const color = signal.indistinguishableUnder.length > 0 ? chalk.red : chalk.yellow;
+          console.log(color(`  ${i + 1}. ${signal.selector}`));
+          console.log(chalk.gray(`     ${signal.property} ${signal.color} vs ${signal.peerColor} on ${signal.peerSelector}`));
+          if (signal.indistinguishableUnder.length > 0) {
+            console.log(chalk.gray(`     Indistinguishable with: ${signal.indistinguishableUnder.join(', ')}`));
+          }
+        });
+        if (data.colorOnlySignals.length > 5) {
+          console.log(chalk.gray(`  ... and ${data.colorOnlySignals.length - 5} more`));
+        }
+        console.log(chalk.gray('  Add text, an icon or a border style change so the state does not rely on color (WCAG 1.4.1).'));
+      } else {
+        console.log(chalk.green('\n✓ No states signalled by color alone'));
+      }
+
+      // Save JSON data
+      const fs = await import('fs/promises');
+      const jsonPath = `${outputDir}/vision-simulation-${Date.now()}.json`;
+      await fs.writeFile(jsonPath, JSON.stringify(data, null, 2));
+      console.log(chalk.cyan(`\n📄 Data: ${jsonPath}`));
+
+      if (expectationsFile) {
+        console.log(chalk.bold('\n📝 Expectations:'));
+        console.log(chalk.gray(`  File: ${expectationsFile}`));
+        console.log(chalk.gray(`  "${options.expectations}"`));
+      }
+
+      console.log('');
+    } catch (error) {
+      spinner.fail('Vision simulation failed');
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      await sentinel.close();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('check-rtl')
+  .description('[AI Agent] Check a right-to-left layout for physical CSS properties, unmirrored icons and left-edge overflow')
+  .requiredOption('-u, --url <url>', 'URL to check')
+  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop, or a device name such as "iPhone 13"', 'desktop')
+  .option('--force', 'Set dir="rtl" on the page instead of relying on its own direction')
+  .option('--no-highlight', 'Do not outline flagged elements in the screenshot')
+  .option('-e, --expectations <text>', 'Document what you expect to see/validate (hypothesis-driven testing)')
+  .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
+  .action(async (options) => {
+    const configDefaults = getConfigDefaults();
+    const outputDir = options.output || configDefaults.outputDir;
+
+    // Save expectations to file
+    const expectationsFile = saveExpectations(options.expectations, outputDir, 'check-rtl');
+
+    const ora = (await import('ora')).default;
+    const spinner = ora('Starting browser...').start();
+
+    const sentinel = new UISentinel({
+      headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
+      output: { directory: outputDir, format: 'json' },
+    });
+
+    try {
+      spinner.text = 'Checking RTL layout...';
+
+      const data = await sentinel.checkRTL(options.url, {
+        viewport: options.viewport,
+        force: options.force,
+        highlight: options.highlight,
+        expectations: options.expectations,
+      });
+
+      await sentinel.close();
+      spinner.succeed('RTL check complete!');
+
+      console.log(chalk.bold('\n↔️  RTL Layout Check:\n'));
+      console.log(chalk.cyan(`Direction: ${data.direction}${data.forced ? ' (forced)' : ''}${data.lang ? ` · lang="${data.lang}"` : ''}`));
+
+      if (data.direction !== 'rtl') {
+        console.log(chalk.yellow('  The page renders left to right, so only CSS properties were checked.'));
+        console.log(chalk.gray('  Use --force, or --locale ar if the app switches direction by locale.'));
+      }
+
+      if (data.physicalProperties.length > 0) {
+        console.log(chalk.bold(`\n📐 Physical properties (${data.summary.physicalProperties}):`));
+        data.physicalProperties.slice(0, 10).forEach((issue) => {
+          console.log(chalk.yellow(`  ${issue.selector}`) + chalk.gray(` ${issue.property}: ${issue.value} → ${issue.logical}`));
+        });
+        if (data.summary.physicalProperties > 10) {
+          console.log(chalk.gray(`  ... and ${data.summary.physicalProperties - 10} more`));
+        }
+      }
+
+      if (data.unflippedIcons.length > 0) {
+        console.log(chalk.bold(`\n🔁 Unmirrored icons (${data.unflippedIcons.length}):`));
+        data.unflippedIcons.slice(0, 10).forEach((issue) => {
+          console.log(chalk.red(`  ${issue.selector}`) + chalk.gray(` (${issue.icon}) ${issue.reason}`));
+        });
+      }
+
+      if (data.leftOverflows.length > 0 || data.pageOverflow > 0) {
+        console.log(chalk.bold(`\n⬅️  Left-edge overflow (${data.leftOverflows.length}):`));
+        data.leftOverflows.slice(0, 10).forEach((issue) => {
+          console.log(chalk.red(`  ${issue.selector}`) + chalk.gray(` ${issue.overflow}px past the left edge`));
+        });
+        if (data.pageOverflow > 0) {
+          console.log(chalk.gray(`  Page scrolls ${data.pageOverflow}px horizontally`));
+        }
+      }
+
+      if (data.summary.total === 0) {
+        console.log(chalk.green('\n✓ No RTL issues found'));
+      }
+
+      if (data.screenshot) {
+        console.log(chalk.cyan(`\n📸 Screenshot: ${data.screenshot}`));
+      }
+
+      // Save JSON data
+      const fs = await import('fs/promises');
+      const jsonPath = `${outputDir}/rtl-check-${Date.now()}.json`;
+      await fs.writeFile(jsonPath, JSON.stringify(data, null, 2));
+      console.log(chalk.cyan(`📄 Data: ${jsonPath}`));
+
+      if (expectationsFile) {
+        console.log(chalk.bold('\n📝 Expectations:'));
+        console.log(chalk.gray(`  File: ${expectationsFile}`));
+        console.log(chalk.gray(`  "${options.expectations}"`));
+      }
+
+      console.log('');
+    } catch (error) {
+      spinner.fail('RTL check failed');
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      await sentinel.close();
+      process.exit(1);
+    }
+  });
+
 program
   .command('measure')
   .description('[AI Agent] Measure element dimensions, margins, padding with visual overlay')
   .requiredOption('-u, --url <url>', 'URL to inspect')
   .requiredOption('-s, --selector <selector>', 'CSS selector of element to measure')
-  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop', 'desktop')
+  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop, or a device name such as "iPhone 13"', 'desktop')
   .option('--no-dimensions', 'Hide dimension labels')
   .option('--no-margin', 'Hide margin overlay')
   .option('--no-padding', 'Hide padding overlay')
@@ -1354,6 +1909,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -1418,7 +1978,7 @@ program
   .option('-t, --type <type>', 'Filter by component type (buttons, links, forms, inputs, images, etc.)')
   .option('--highlight', 'Highlight detected components with color-coded outlines')
   .option('--include-position', 'Include position data for each component')
-  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop', 'desktop')
+  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop, or a device name such as "iPhone 13"', 'desktop')
   .option('-e, --expectations <text>', 'Document what you expect to see/validate (hypothesis-driven testing)')
   .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
   .action(async (options) => {
@@ -1431,6 +1991,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -1497,7 +2062,7 @@ program
   .option('--max-width <pixels>', 'Max width for column grid', '1200')
   .option('--no-ruler', 'Hide ruler overlays')
   .option('--no-center-lines', 'Hide center line guides')
-  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop', 'desktop')
+  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop, or a device name such as "iPhone 13"', 'desktop')
   .option('-e, --expectations <text>', 'Document what you expect to see/validate (hypothesis-driven testing)')
   .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
   .action(async (options) => {
@@ -1510,6 +2075,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -1567,7 +2137,7 @@ program
   .option('--position <position>', 'Indicator position: top-left, top-right, bottom-left, bottom-right', 'bottom-right')
   .option('--no-dimensions', 'Hide viewport dimensions')
   .option('--no-orientation', 'Hide orientation info')
-  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop', 'desktop')
+  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop, or a device name such as "iPhone 13"', 'desktop')
   .option('-e, --expectations <text>', 'Document what you expect to see/validate (hypothesis-driven testing)')
   .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
   .action(async (options) => {
@@ -1580,6 +2150,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -1627,7 +2202,7 @@ program
   .command('analyze-media-queries')
   .description('[AI Agent] Analyze CSS media queries and responsive breakpoints')
   .requiredOption('-u, --url <url>', 'URL to analyze')
-  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop', 'desktop')
+  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop, or a device name such as "iPhone 13"', 'desktop')
   .option('-e, --expectations <text>', 'Document what you expect to see/validate (hypothesis-driven testing)')
   .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
   .action(async (options) => {
@@ -1640,6 +2215,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -1704,7 +2284,7 @@ program
   .command('inspect-a11y')
   .description('[AI Agent] Visually inspect accessibility violations with overlays')
   .requiredOption('-u, --url <url>', 'URL to inspect')
-  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop', 'desktop')
+  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop, or a device name such as "iPhone 13"', 'desktop')
   .option('--no-tooltips', 'Disable violation tooltips')
   .option('--no-hover', 'Disable hover to show violations')
   .option('-e, --expectations <text>', 'Document what you expect to see/validate (hypothesis-driven testing)')
@@ -1719,6 +2299,12 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
+      accessibility: configDefaults.accessibility,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -1770,7 +2356,7 @@ program
   .requiredOption('-u, --url <url>', 'URL to inspect')
   .requiredOption('-s, --selector <selector>', 'CSS selector of element')
   .requiredOption('-A, --actions <actions>', 'Comma-separated actions (e.g., "click,type:hello,wait:1000")')
-  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop', 'desktop')
+  .option('-v, --viewport <viewport>', 'Viewport: mobile, tablet, desktop, or a device name such as "iPhone 13"', 'desktop')
   .option('--capture-intermediate', 'Capture screenshot after each action')
   .option('--capture-viewport', 'Use viewport capture instead of fullpage')
   .option('-e, --expectations <text>', 'Document what you expect to see/validate (hypothesis-driven testing)')
@@ -1785,6 +2371,11 @@ program
 
     const sentinel = new UISentinel({
       headless: configDefaults.headless,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
       output: { directory: outputDir, format: 'json' },
     });
 
@@ -1851,4 +2442,634 @@ program
     }
   });
 
+program
+  .command('validate')
+  .description('Validate every configured route across the configured viewports')
+  .option('-p, --project <path>', 'Project path (starts its dev server)')
+  .option('-u, --url <url>', 'Host to validate against (defaults to config host)')
+  .option('-r, --routes <routes>', 'Comma-separated routes (defaults to config routes)')
+  .option('-v, --viewports <viewports>', 'Comma-separated viewports or device names (defaults to config viewports)')
+  .option('--no-a11y', 'Skip accessibility checks')
+  .option('--contrast', 'Check text contrast ratios')
+  .option('--mobile-ux', 'Check touch target sizes')
+  .option('--network', 'Record network traffic and write a HAR file per capture')
+  .option('--theme-matrix', 'Capture every theme combination (config themeMatrix, or light/dark × forced colors) and check contrast in each')
+  .option('-s, --standard <standard>', 'WCAG standard: WCAG21A, WCAG21AA, WCAG21AAA, WCAG22A, WCAG22AA, WCAG22AAA (defaults to config)')
+  .option('-f, --format <format>', 'Report format: json, html, markdown, junit, sarif (defaults to config or json)')
+  .option('--fail-on-page-error', 'Fail routes whose page throws an uncaught exception')
+  .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
+  .action(async (options) => {
+    const { sentinel, outputDir } = createRouteSentinel(options);
+
+    try {
+      const results = await sentinel.validateRoutes();
+      await sentinel.close();
+
+      console.log(chalk.bold('\n✅ Route Validation:\n'));
+      results.forEach((result) => {
+        const icon = result.status === 'success' ? chalk.green('✓') :
+                     result.status === 'warning' ? chalk.yellow('⚠') :
+                     chalk.red('✗');
+        const details = [];
+        if (result.accessibility) {
+          details.push(`a11y ${result.accessibility.score}/100`);
+          details.push(`${result.accessibility.violations.length} violation${result.accessibility.violations.length === 1 ? '' : 's'}`);
+        }
+        if (result.contrast) {
+          details.push(`${result.contrast.issues.length} contrast issue${result.contrast.issues.length === 1 ? '' : 's'}`);
+        }
+        if (result.mobileUX) {
+          details.push(`${result.mobileUX.touchTargets.length} small touch target${result.mobileUX.touchTargets.length === 1 ? '' : 's'}`);
+        }
+        if (result.layout) {
+          const overflows = result.layout.overflows.filter((o) => o.overflowX > 0).length;
+          details.push(`${overflows} overflow${overflows === 1 ? '' : 's'}`);
+        }
+        if (result.visualDiff) {
+          details.push(`diff ${result.visualDiff.diffPercentage}%`);
+        }
+        if (result.runtime) {
+          const consoleErrors = result.runtime.console.error.length;
+          details.push(`${consoleErrors} console error${consoleErrors === 1 ? '' : 's'}`);
+          if (result.runtime.failedRequests.length > 0) {
+            details.push(`${result.runtime.failedRequests.length} failed request${result.runtime.failedRequests.length === 1 ? '' : 's'}`);
+          }
+        }
+        if (result.network) {
+          details.push(`${result.network.totalRequests} requests, ${(result.network.totalBytes / 1024).toFixed(0)} KB`);
+          if (result.network.httpErrors.length > 0) {
+            details.push(`${result.network.httpErrors.length} HTTP error${result.network.httpErrors.length === 1 ? '' : 's'}`);
+          }
+        }
+        const theme = result.theme ? `${result.theme.padEnd(20)} ` : '';
+        console.log(`  ${icon} ${String(result.route).padEnd(30)} ${String(result.viewport).padEnd(18)} ${String(result.browser).padEnd(9)} ${theme}${chalk.gray(details.join(' · '))}`);
+        result.errors.forEach((error) => console.log(chalk.red(`      ${error}`)));
+      });
+
+      const failed = results.filter((r) => r.status === 'error').length;
+      const warnings = results.filter((r) => r.status === 'warning').length;
+      console.log(chalk.bold(`\n${results.length} checked, ${failed} failed, ${warnings} with warnings`));
+
+      // Save JSON data
+      const fsp = await import('fs/promises');
+      const jsonPath = `${outputDir}/validation-${Date.now()}.json`;
+      await fsp.writeFile(jsonPath, JSON.stringify(results, null, 2));
+      console.log(chalk.cyan(`📄 Data: ${jsonPath}`));
+
+      if (sentinel.getConfig().output.format !== 'json') {
+        const reportPath = await sentinel.generateReport(results, undefined, {
+          name: `validation-report-${Date.now()}`,
+          title: 'Route Validation',
+        });
+        console.log(chalk.cyan(`📊 Report: ${reportPath}`));
+      }
+      console.log('');
+
+      if (failed > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      await sentinel.close();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('i18n')
+  .description('Capture routes under several locales and flag text that overflows or gets truncated')
+  .option('-l, --locales <locales>', 'Comma-separated locales, the first is the reference (defaults to config i18n.locales or en-US,de-DE,ar)')
+  .option('-p, --project <path>', 'Project path (starts its dev server)')
+  .option('-u, --url <url>', 'Host to check (defaults to config host)')
+  .option('-r, --routes <routes>', 'Comma-separated routes (defaults to config routes)')
+  .option('-v, --viewports <viewports>', 'Comma-separated viewports or device names (defaults to config viewports)')
+  .option('-f, --format <format>', 'Report format: json, html, markdown, junit, sarif (defaults to config or json)')
+  .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
+  .action(async (options) => {
+    const { sentinel, outputDir } = createRouteSentinel({ ...options, a11y: false, contrast: false, mobileUx: false, network: false });
+
+    try {
+      const results = await sentinel.sweepLocales();
+      await sentinel.close();
+
+      console.log(chalk.bold('\n🌐 i18n Layout Check:\n'));
+      results.forEach((result) => {
+        const issues = result.i18n?.issues || [];
+        const icon = result.status === 'error' ? chalk.red('✗') :
+                     issues.length > 0 ? chalk.yellow('⚠') :
+                     chalk.green('✓');
+        const summary = result.status === 'error'
+          ? result.errors.join('; ')
+          : `${issues.length} issue${issues.length === 1 ? '' : 's'}`;
+        console.log(`  ${icon} ${String(result.route).padEnd(30)} ${String(result.viewport).padEnd(18)} ${String(result.locale).padEnd(8)} ${chalk.gray(summary)}`);
+        issues.slice(0, 5).forEach((issue) => console.log(chalk.yellow(`      ${issue.description}`)));
+        if (issues.length > 5) {
+          console.log(chalk.gray(`      ... and ${issues.length - 5} more`));
+        }
+      });
+
+      const withIssues = results.filter((r) => (r.i18n?.issues.length || 0) > 0).length;
+      const failed = results.filter((r) => r.status === 'error').length;
+      console.log(chalk.bold(`\n${results.length} checked, ${withIssues} with layout issues, ${failed} failed`));
+      console.log(chalk.gray(`Issues are relative to ${results[0]?.i18n?.reference || 'the first locale'}`));
+
+      // Save JSON data
+      const fsp = await import('fs/promises');
+      const jsonPath = `${outputDir}/i18n-${Date.now()}.json`;
+      await fsp.writeFile(jsonPath, JSON.stringify(results, null, 2));
+      console.log(chalk.cyan(`📄 Data: ${jsonPath}`));
+
+      if (sentinel.getConfig().output.format !== 'json') {
+        const reportPath = await sentinel.generateReport(results, undefined, {
+          name: `i18n-report-${Date.now()}`,
+          title: 'i18n Layout Check',
+        });
+        console.log(chalk.cyan(`📊 Report: ${reportPath}`));
+      }
+      console.log('');
+
+      if (failed > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      await sentinel.close();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('run <files...>')
+  .description('Run scenario files (YAML or JSON, directories or patterns such as scenarios/*.yml): named flows of setup steps, actions and assertions')
+  .option('-p, --project <path>', 'Project path (starts its dev server)')
+  .option('-u, --url <url>', 'Host that relative scenario URLs are resolved against (defaults to config host)')
+  .option('-v, --viewports <viewports>', 'Comma-separated viewports or device names for every scenario (overrides the files)')
+  .option('-f, --format <format>', 'Report format: json, html, markdown, junit, sarif (defaults to config or json)')
+  .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
+  .action(async (files: string[], options) => {
+    let scenarios;
+    try {
+      scenarios = new ScenarioLoader().load(files);
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+
+    const { sentinel, outputDir } = createRouteSentinel({ ...options, viewports: undefined });
+    const viewports = options.viewports
+      ? options.viewports.split(',').map((v: string) => v.trim()) as ViewportPreset[]
+      : undefined;
+
+    try {
+      const results = [];
+      for (const scenario of scenarios) {
+        console.log(chalk.bold(`\n▶ ${scenario.name}`) + chalk.gray(` (${scenario.source})`));
+        results.push(await sentinel.runScenario(viewports ? { ...scenario, viewports } : scenario));
+      }
+      await sentinel.close();
+
+      console.log(chalk.bold('\n🎭 Scenarios:\n'));
+      results.forEach((result) => {
+        const assertions = result.assertions || [];
+        const failedAssertions = assertions.filter((a) => !a.passed);
+        const icon = result.status === 'error' ? chalk.red('✗') :
+                     result.status === 'warning' ? chalk.yellow('⚠') :
+                     chalk.green('✓');
+        const summary = assertions.length > 0
+          ? `${assertions.length - failedAssertions.length}/${assertions.length} assertions passed`
+          : `${result.screenshots.length} screenshot${result.screenshots.length === 1 ? '' : 's'}`;
+        console.log(`  ${icon} ${String(result.scenario).padEnd(40)} ${chalk.gray(summary)}`);
+        failedAssertions.forEach((a) => {
+          console.log(chalk.red(`      Step ${a.step}${a.viewport ? ` (${a.viewport})` : ''}: ${a.description} - expected ${a.expected}, got ${a.actual}`));
+        });
+        if (result.screenshots.length === 0) {
+          result.errors.forEach((error) => console.log(chalk.red(`      ${error}`)));
+        }
+      });
+
+      const failed = results.filter((r) => r.status === 'error').length;
+      console.log(chalk.bold(`\n${results.length} scenario${results.length === 1 ? '' : 's'}, ${results.length - failed} passed, ${failed} failed`));
+
+      // Save JSON data
+      const fsp = await import('fs/promises');
+      const jsonPath = `${outputDir}/scenarios-${Date.now()}.json`;
+      await fsp.writeFile(jsonPath, JSON.stringify(results, null, 2));
+      console.log(chalk.cyan(`📄 Data: ${jsonPath}`));
+
+      if (sentinel.getConfig().output.format !== 'json') {
+        const reportPath = await sentinel.generateReport(results, undefined, {
+          name: `scenario-report-${Date.now()}`,
+          title: 'Scenarios',
+        });
+        console.log(chalk.cyan(`📊 Report: ${reportPath}`));
+      }
+      console.log('');
+
+      if (failed > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      await sentinel.close();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('scenario-schema')
+  .description('Print the JSON Schema for scenario files (for editor validation and completion)')
+  .option('-o, --output <path>', 'Write the schema to a file instead of stdout')
+  .action((options) => {
+    const schema = JSON.stringify(new ScenarioLoader().getSchema(), null, 2);
+    if (options.output) {
+      fs.mkdirSync(path.dirname(path.resolve(options.output)), { recursive: true });
+      fs.writeFileSync(options.output, schema + '\n');
+      console.log(chalk.green(`✓ Schema written to ${options.output}`));
+    } else {
+      console.log(schema);
+    }
+  });
+
+program
+  .command('record <url>')
+  .description('Open a browser, click through a flow by hand, and save it as a scenario file for `uisentinel run`')
+  .option('-o, --output <path>', 'Scenario file to write (.yml, .yaml or .json)', 'scenarios/recorded.yml')
+  .option('-n, --name <name>', 'Scenario name (defaults to the file name)')
+  .option('-v, --viewport <viewport>', 'Viewport or device name to record and replay at', 'desktop')
+  .option('--force', 'Overwrite an existing scenario file')
+  .action(async (url: string, options) => {
+    const config = loadConfig();
+    const configDefaults = getConfigDefaults();
+    const outputPath = path.resolve(options.output);
+
+    if (fs.existsSync(outputPath) && !options.force) {
+      console.error(chalk.red(`${options.output} already exists. Pick another file with -o, or overwrite it with --force.`));
+      process.exit(1);
+    }
+
+    const sentinel = new UISentinel({
+      host: config.host,
+      browsers: configDefaults.browsers,
+      auth: configDefaults.auth,
+      emulation: configDefaults.emulation,
+      locale: configDefaults.locale,
+      viewportPresets: configDefaults.viewportPresets,
+      output: { directory: configDefaults.outputDir, format: 'json' },
+    });
+
+    try {
+      // Fail on an unknown viewport before a browser opens
+      new ViewportResolver(configDefaults.viewportPresets).resolve(options.viewport);
+
+      console.log(chalk.cyan(`\n⏺  Recording ${url}. Click, type and scroll in the browser window, then come back here.\n`));
+
+      const actions = await sentinel.recordInteractions(url, async () => {
+        const { done } = await prompts({
+          type: 'confirm',
+          name: 'done',
+          message: 'Done? Save the scenario',
+          initial: true,
+        });
+        if (!done) {
+          throw new Error('Cancelled, no scenario saved');
+        }
+      }, {
+        viewport: options.viewport,
+        onAction: (action) => {
+          const target = 'selector' in action ? action.selector : 'key' in action ? action.key : 'url' in action ? action.url : '';
+          console.log(chalk.gray(`  ● ${action.type}${target ? ` ${target}` : ''}`));
+        },
+      });
+
+      if (actions.length === 0) {
+        console.log(chalk.yellow('\nNothing was recorded, no scenario saved.\n'));
+        return;
+      }
+
+      const scenario = {
+        name: options.name || path.basename(outputPath).replace(/\.(ya?ml|json)$/, ''),
+        url,
+        viewports: [options.viewport],
+        actions,
+      };
+      const problems = new ScenarioLoader().validate(scenario);
+      if (problems.length > 0) {
+        console.log(chalk.yellow(`Recorded steps need a look before they run:\n  ${problems.join('\n  ')}`));
+      }
+
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, outputPath.endsWith('.json')
+        ? JSON.stringify(scenario, null, 2) + '\n'
+        : `# Recorded with uisentinel record. Add assertions, then run: uisentinel run ${options.output}\n` +
+          yaml.safeDump(scenario, { lineWidth: -1, noRefs: true }));
+
+      console.log(chalk.green(`\n✓ ${actions.length} step${actions.length === 1 ? '' : 's'} saved to ${options.output}`));
+      console.log(chalk.gray(`Replay with: uisentinel run ${options.output}\n`));
+    } catch (error) {
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      process.exit(1);
+    }
+  });
+
+const baseline = program
+  .command('baseline')
+  .description('Manage visual regression baselines (keyed by route + viewport)');
+
+baseline
+  .command('save')
+  .description('Capture routes and save them as baselines')
+  .option('-p, --project <path>', 'Project path (starts its dev server)')
+  .option('-u, --url <url>', 'Host to capture (defaults to config host)')
+  .option('-r, --routes <routes>', 'Comma-separated routes (defaults to config routes)')
+  .option('-v, --viewports <viewports>', 'Comma-separated viewports or device names (defaults to config viewports)')
+  .option('--ignore <selectors...>', 'CSS selectors to mask in addition to config visualDiff.ignore')
+  .option('--theme-matrix', 'Save a baseline per theme combination')
+  .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
+  .action(async (options) => {
+    const { sentinel } = createRouteSentinel({ ...options, a11y: false, contrast: false, mobileUx: false, network: false });
+
+    try {
+      const saved = await sentinel.saveBaselines();
+      await sentinel.close();
+
+      console.log(chalk.bold(`\n📌 Saved ${saved.length} baseline${saved.length === 1 ? '' : 's'}:\n`));
+      saved.forEach((b) => {
+        const masked = b.masks?.length ? chalk.gray(` (${b.masks.length} masked)`) : '';
+        console.log(chalk.cyan(`  ${b.name.padEnd(40)} ${b.width}×${b.height}px`) + masked);
+      });
+      console.log('');
+    } catch (error) {
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      await sentinel.close();
+      process.exit(1);
+    }
+  });
+
+baseline
+  .command('list')
+  .description('List saved baselines')
+  .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
+  .action((options) => {
+    const { sentinel } = createRouteSentinel(options);
+    const baselines = sentinel.listBaselines();
+    const pending = sentinel.getVisualDiff().getPendingApprovals();
+
+    if (baselines.length === 0) {
+      console.log(chalk.yellow('No baselines saved yet. Run: uisentinel baseline save'));
+      return;
+    }
+
+    console.log(chalk.bold(`\n📌 Baselines (${baselines.length}):\n`));
+    baselines.forEach((b) => {
+      const pendingBadge = pending.includes(b.name) ? chalk.yellow(' [new capture]') : '';
+      console.log(chalk.cyan(`  ${b.name.padEnd(40)}`) + chalk.gray(`${b.width}×${b.height}px  ${b.createdAt}`) + pendingBadge);
+    });
+    console.log('');
+  });
+
+baseline
+  .command('approve [names...]')
+  .description('Promote the latest captures to baselines (all pending captures if no names given)')
+  .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
+  .action(async (names: string[], options) => {
+    const { sentinel } = createRouteSentinel(options);
+
+    try {
+      const approved = await sentinel.approveBaselines(names.length > 0 ? names : undefined);
+      if (approved.length === 0) {
+        console.log(chalk.yellow('Nothing to approve. Run: uisentinel diff'));
+        return;
+      }
+      approved.forEach((b) => console.log(chalk.green(`✓ Approved ${b.name}`)));
+    } catch (error) {
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      process.exit(1);
+    }
+  });
+
+baseline
+  .command('delete <names...>')
+  .description('Delete baselines')
+  .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
+  .action((names: string[], options) => {
+    const { sentinel } = createRouteSentinel(options);
+    let missing = 0;
+
+    names.forEach((name) => {
+      if (sentinel.deleteBaseline(name)) {
+        console.log(chalk.green(`✓ Deleted ${name}`));
+      } else {
+        console.log(chalk.red(`✗ Baseline not found: ${name}`));
+        missing++;
+      }
+    });
+
+    if (missing > 0) {
+      process.exit(1);
+    }
+  });
+
+program
+  .command('diff')
+  .description('Capture routes and compare them with their baselines (exits non-zero on regressions)')
+  .option('-p, --project <path>', 'Project path (starts its dev server)')
+  .option('-u, --url <url>', 'Host to capture (defaults to config host)')
+  .option('-r, --routes <routes>', 'Comma-separated routes (defaults to config routes)')
+  .option('-v, --viewports <viewports>', 'Comma-separated viewports or device names (defaults to config viewports)')
+  .option('-t, --threshold <percent>', 'Maximum differing pixels in percent (defaults to config or 0.1)')
+  .option('--pixel-threshold <value>', 'Per-pixel color distance 0-1 (defaults to config or 0.1)')
+  .option('--include-aa', 'Count anti-aliased pixels as differences')
+  .option('--dimension-policy <policy>', 'When sizes differ: fail, pad, or crop (defaults to config or pad)')
+  .option('--ignore <selectors...>', 'CSS selectors to mask in addition to config visualDiff.ignore')
+  .option('-b, --baseline <path>', 'Compare this baseline image directly (requires --current)')
+  .option('-c, --current <path>', 'Current image to compare with --baseline')
+  .option('--theme-matrix', 'Compare every theme combination with its baseline')
+  .option('-f, --format <format>', 'Report format: json, html, markdown, junit, sarif (defaults to config or json)')
+  .option('-o, --output <dir>', 'Output directory (defaults to config or ./uisentinel-output)')
+  .action(async (options) => {
+    const { sentinel, outputDir } = createRouteSentinel({ ...options, a11y: false, contrast: false, mobileUx: false, network: false });
+
+    try {
+      // Direct image comparison
+      if (options.baseline || options.current) {
+        if (!options.baseline || !options.current) {
+          throw new Error('--baseline and --current must be used together');
+        }
+
+        // Selectors need a live page, so only rectangles apply to a direct comparison
+        const visualDiffOptions = sentinel.getConfig().visualDiff;
+        const result = await sentinel.getVisualDiff().compare(
+          options.baseline,
+          options.current,
+          {
+            ...visualDiffOptions,
+            masks: (visualDiffOptions.ignore || []).filter((spec): spec is Region => typeof spec !== 'string'),
+          }
+        );
+
+        console.log(chalk.bold('\n🔍 Visual Diff:\n'));
+        console.log((result.passed ? chalk.green('✓ Passed') : chalk.red('✗ Failed')) +
+          chalk.gray(` ${result.diffPercentage}% different (threshold ${result.threshold}%)`));
+        if (result.dimensionMismatch) {
+          const { baseline, current, policy } = result.dimensionMismatch;
+          console.log(chalk.yellow(`Size changed ${baseline.width}×${baseline.height} → ${current.width}×${current.height} (policy: ${policy})`));
+        }
+        if (result.diffPath) {
+          console.log(chalk.cyan(`Diff: ${result.diffPath}`));
+        }
+        console.log('');
+
+        if (!result.passed) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      const results = await sentinel.validateRoutes(undefined, { contrast: false });
+      await sentinel.close();
+
+      console.log(chalk.bold('\n🔍 Visual Regression:\n'));
+      let regressions = 0;
+      let missing = 0;
+      let captureFailures = 0;
+
+      results.forEach((result) => {
+        const label = `${String(result.route).padEnd(30)} ${String(result.viewport).padEnd(18)} ${String(result.browser).padEnd(9)}${result.theme ? ` ${result.theme.padEnd(20)}` : ''}`;
+        if (result.screenshots.length === 0) {
+          captureFailures++;
+          console.log(`  ${chalk.red('✗')} ${label} ${chalk.red(result.errors.join('; ') || 'no screenshot captured')}`);
+          return;
+        }
+        if (!result.visualDiff) {
+          missing++;
+          console.log(`  ${chalk.yellow('○')} ${label} ${chalk.gray('no baseline')}`);
+          return;
+        }
+
+        if (!result.visualDiff.passed) {
+          regressions++;
+        }
+        const icon = result.visualDiff.passed ? chalk.green('✓') : chalk.red('✗');
+        console.log(`  ${icon} ${label} ${chalk.gray(`${result.visualDiff.diffPercentage}% (threshold ${result.visualDiff.threshold}%)`)}`);
+        if (result.visualDiff.dimensionMismatch) {
+          const { baseline, current, policy } = result.visualDiff.dimensionMismatch;
+          console.log(chalk.yellow(`      Size changed ${baseline.width}×${baseline.height} → ${current.width}×${current.height} (policy: ${policy})`));
+        }
+        if (!result.visualDiff.passed && result.visualDiff.structural) {
+          const { summary } = result.visualDiff.structural;
+          summary.slice(0, 5).forEach((line) => console.log(chalk.yellow(`      • ${line}`)));
+          if (summary.length > 5) {
+            console.log(chalk.gray(`      … and ${summary.length - 5} more layout changes`));
+          }
+        }
+        if (!result.visualDiff.passed && result.visualDiff.diffPath) {
+          console.log(chalk.gray(`      Diff: ${result.visualDiff.diffPath}`));
+        }
+      });
+
+      console.log(chalk.bold(`\n${results.length} compared, ${regressions} regression${regressions === 1 ? '' : 's'}, ${missing} without baseline`));
+
+      // Save JSON data
+      const fsp = await import('fs/promises');
+      const jsonPath = `${outputDir}/visual-diff-${Date.now()}.json`;
+      await fsp.writeFile(jsonPath, JSON.stringify(results, null, 2));
+      console.log(chalk.cyan(`📄 Data: ${jsonPath}`));
+
+      if (sentinel.getConfig().output.format !== 'json') {
+        const reportPath = await sentinel.generateReport(results, undefined, {
+          name: `visual-diff-report-${Date.now()}`,
+          title: 'Visual Regression',
+        });
+        console.log(chalk.cyan(`📊 Report: ${reportPath}`));
+      }
+
+      if (regressions > 0) {
+        console.log(chalk.gray('\nAccept intended changes with: uisentinel baseline approve [names...]'));
+      }
+      console.log('');
+
+      if (regressions > 0 || captureFailures > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      await sentinel.close();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('devices [filter]')
+  .description('List viewport presets and Playwright device names usable as viewports')
+  .action((filter?: string) => {
+    const configDefaults = getConfigDefaults();
+    const entries = new ViewportResolver(configDefaults.viewportPresets).list(filter);
+
+    if (entries.length === 0) {
+      console.log(chalk.yellow(`No presets or devices match "${filter}"`));
+      return;
+    }
+
+    const labels = { custom: 'Config presets', preset: 'Built-in presets', device: 'Playwright devices' };
+    (['custom', 'preset', 'device'] as const).forEach((source) => {
+      const group = entries.filter(entry => entry.source === source);
+      if (group.length === 0) {
+        return;
+      }
+
+      console.log(chalk.bold(`\n${labels[source]}:\n`));
+      group.forEach(({ name, viewport }) => {
+        const traits = [
+          `@${viewport.deviceScaleFactor || 1}x`,
+          ...(viewport.isMobile ? ['mobile'] : []),
+          ...(viewport.hasTouch ? ['touch'] : []),
+        ];
+        console.log(`  ${name.padEnd(36)} ${`${viewport.width}×${viewport.height}`.padEnd(11)} ${chalk.gray(traits.join(' '))}`);
+      });
+    });
+
+    console.log(chalk.gray('\nUse any name as a viewport, e.g. uisentinel validate -v "iPhone 13,desktop"\n'));
+  });
+
+const auth = program
+  .command('auth')
+  .description('Manage sessions for capturing pages behind a login');
+
+auth
+  .command('record <url>')
+  .description('Open a browser, log in by hand, and save the session for headless runs')
+  .option('-o, --output <path>', 'Where to save the storage state (default: <output dir>/uisentinel-auth.json)')
+  .action(async (url: string, options) => {
+    const configDefaults = getConfigDefaults();
+    const output: string = options.output || path.join(configDefaults.outputDir, 'uisentinel-auth.json');
+    const sentinel = new UISentinel({
+      browsers: configDefaults.browsers,
+      output: { directory: configDefaults.outputDir, format: 'json' },
+    });
+
+    try {
+      console.log(chalk.cyan(`\n🔐 Opening ${url}. Log in in the browser window, then come back here.\n`));
+
+      const statePath = await sentinel.recordAuth(url, output, async () => {
+        const { done } = await prompts({
+          type: 'confirm',
+          name: 'done',
+          message: 'Logged in? Save the session',
+          initial: true,
+        });
+        if (!done) {
+          throw new Error('Cancelled, no session saved');
+        }
+      });
+
+      console.log(chalk.green(`\n✓ Session saved to ${statePath}`));
+      console.log(chalk.gray('The file contains live session cookies. Keep it out of version control.'));
+      console.log(chalk.gray(`Use it with: uisentinel --storage-state ${output} validate`));
+      console.log(chalk.gray(`Or in uisentinel.config.js: auth: { storageState: '${output}' }\n`));
+    } catch (error) {
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      process.exit(1);
+    }
+  });
+
 program.parse();
@@ -32,6 +32,10 @@ export class ElementInspector extends BaseExtension {
    * Initialize CDP session for the page
    */
   async initialize(page: Page): Promise<void> {
+    if (!this.supportsCDP(page)) {
+      return;
+    }
+
     const client = await page.context().newCDPSession(page);
     await client.send('DOM.enable');
     await client.send('CSS.enable');
@@ -428,6 +432,11 @@ export class ElementInspector extends BaseExtension {
   }): Promise<void> {
     const { showInfo = true, showRulers = false, showExtensionLines = true } = options;
 
+    if (!this.supportsCDP(page)) {
+      await this.showDOMOverlay(page, selector, { showInfo });
+      return;
+    }
+
     let client = this.cdpSessions.get(page);
     if (!client) {
       client = await page.context().newCDPSession(page);
@@ -461,6 +470,68 @@ export class ElementInspector extends BaseExtension {
     });
   }
 
+  /**
+   * Highlight an element with injected DOM nodes, for browsers without CDP (Firefox, WebKit)
+   * Draws the margin, padding and content boxes in the same colors as the DevTools overlay
+   */
+  private async showDOMOverlay(page: Page, selector: string, options: { showInfo?: boolean }): Promise<void> {
+    const found = await page.evaluate(({ selector, showInfo }) => {
+      document.querySelectorAll('.uisentinel-inspector-overlay').forEach(el => el.remove());
+
+      const el = document.querySelector(selector);
+      if (!el) return false;
+
+      const rect = el.getBoundingClientRect();
+      const styles = window.getComputedStyle(el);
+      const px = (value: string) => parseFloat(value) || 0;
+      const addBox = (x: number, y: number, width: number, height: number, color: string) => {
+        const box = document.createElement('div');
+        box.className = 'uisentinel-inspector-overlay';
+        box.style.cssText = `position: absolute; pointer-events: none; z-index: 2147483646;
+          left: ${x + window.scrollX}px; top: ${y + window.scrollY}px; width: ${width}px; height: ${height}px;
+          background: ${color};`;
+        document.body.appendChild(box);
+      };
+
+      const margin = { top: px(styles.marginTop), right: px(styles.marginRight), bottom: px(styles.marginBottom), left: px(styles.marginLeft) };
+      const padding = { top: px(styles.paddingTop), right: px(styles.paddingRight), bottom: px(styles.paddingBottom), left: px(styles.paddingLeft) };
+      const border = { top: px(styles.borderTopWidth), right: px(styles.borderRightWidth), bottom: px(styles.borderBottomWidth), left: px(styles.borderLeftWidth) };
+
+      addBox(rect.x - margin.left, rect.y - margin.top, rect.width + margin.left + margin.right, rect.height + margin.top + margin.bottom, 'rgba(246, 178, 107, 0.66)');
+      addBox(rect.x + border.left, rect.y + border.top, rect.width - border.left - border.right, rect.height - border.top - border.bottom, 'rgba(147, 196, 125, 0.55)');
+      addBox(
+        rect.x + border.left + padding.left,
+        rect.y + border.top + padding.top,
+        rect.width - border.left - border.right - padding.left - padding.right,
+        rect.height - border.top - border.bottom - padding.top - padding.bottom,
+        'rgba(111, 168, 220, 0.66)'
+      );
+
+      if (showInfo) {
+        const label = document.createElement('div');
+        label.className = 'uisentinel-inspector-overlay';
+        label.textContent = `${el.tagName.toLowerCase()}${el.id ? '#' + el.id : ''} ${Math.round(rect.width)} × ${Math.round(rect.height)}`;
+        label.style.cssText = `position: absolute; pointer-events: none; z-index: 2147483647;
+          left: ${rect.x + window.scrollX}px; top: ${Math.max(0, rect.y + window.scrollY - 24)}px;
+          background: #333; color: #fff; font: 11px monospace; padding: 3px 6px; border-radius: 3px;`;
+        document.body.appendChild(label);
+      }
+
+      return true;
+    }, { selector, showInfo: options.showInfo ?? true });
+
+    if (!found) {
+      throw new Error(`Could not find DOM node for selector: ${selector}`);
+    }
+  }
+
+  /**
+   * CDP sessions are only available in Chromium
+   */
+  private supportsCDP(page: Page): boolean {
+    return page.context().browser()?.browserType().name() === 'chromium';
+  }
+
   /**
    * Clear CDP overlay
    */
@@ -469,6 +540,9 @@ export class ElementInspector extends BaseExtension {
     if (client) {
       await client.send('Overlay.hideHighlight');
     }
+    await page.evaluate(() => {
+      document.querySelectorAll('.uisentinel-inspector-overlay').forEach(el => el.remove());
+    });
   }
 
   /**
@@ -33,7 +33,7 @@ export class FullPageScreenshotExtension extends BaseExtension {
     waitForLoad?: boolean;
     scrollToEnd?: boolean;
     scrollDelay?: number; // Delay between scrolls (for lazy loading)
-    device?: 'desktop' | 'tablet' | 'mobile' | 'custom';
+    device?: string; // desktop, tablet, mobile, custom, or a preset/device name already applied to the page
     viewport?: { width: number; height: number };
     expectation?: string; // What the AI agent expects to see
   } = {}): Promise<any> {
@@ -65,7 +65,8 @@ export class FullPageScreenshotExtension extends BaseExtension {
         mobile: { width: 375, height: 667 },
         custom: page.viewportSize() || { width: 1920, height: 1080 },
       };
-      await page.setViewportSize(deviceViewports[device]);
+      // Other presets and device names are applied when the page is created
+      await page.setViewportSize(deviceViewports[device] || deviceViewports.custom);
     }
 
     const currentViewport = page.viewportSize();
@@ -121,15 +122,20 @@ export class FullPageScreenshotExtension extends BaseExtension {
 
   /**
    * Capture full page for multiple devices
+   * @param page - Page to resize for each device, or null when openPage is given
    */
-  async captureMultiDevice(page: Page, options: {
+  async captureMultiDevice(page: Page | null, options: {
     outputName?: string;
-    devices?: Array<'desktop' | 'tablet' | 'mobile'>;
+    devices?: string[];
+    openPage?: (device: string) => Promise<Page>; // Capture each device on its own page instead of resizing this one
+    closePage?: (page: Page, device: string) => Promise<void>; // Closes pages from openPage (default: page.close())
     expectation?: string;
   } = {}): Promise<any> {
     const {
       outputName = 'multidevice',
       devices = ['desktop', 'tablet', 'mobile'],
+      openPage,
+      closePage = (devicePage: Page) => devicePage.close(),
       expectation,
     } = options;
 
@@ -137,12 +143,18 @@ export class FullPageScreenshotExtension extends BaseExtension {
     const results: any[] = [];
 
     for (const device of devices) {
-      const result = await this.capture(page, {
-        outputName: `${outputName}-${device}-${timestamp}`,
-        device,
-        expectation,
-      });
-      results.push(result);
+      const devicePage = openPage ? await openPage(device) : page;
+      try {
+        results.push(await this.capture(devicePage, {
+          outputName: `${outputName}-${device.replace(/[^a-zA-Z0-9_-]+/g, '-')}-${timestamp}`,
+          device,
+          expectation,
+        }));
+      } finally {
+        if (openPage) {
+          await closePage(devicePage, device);
+        }
+      }
     }
 
     const summary = {
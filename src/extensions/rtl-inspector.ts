@@ -0,0 +1,418 @@
+import { BaseExtension } from './extension-manager';
+
+/**
+ * RTL Inspector Extension
+ *
+ * Checks how a page holds up in right-to-left layouts:
+ * - Physical properties (margin-left, padding-right, left, text-align: left...) where logical ones belong
+ * - Directional icons (arrows, chevrons) that were not mirrored
+ * - Elements pushed past the left edge of the viewport
+ *
+ * Detects the page direction, or forces dir="rtl" on the document first.
+ */
+export class RTLInspector extends BaseExtension {
+  id = 'rtl-inspector';
+  name = 'RTL Inspector';
+  description = 'Finds mirroring problems in right-to-left layouts';
+
+  /**
+   * Generate browser-side JavaScript code
+   */
+  getBrowserCode(): string {
+    return this.createBrowserAPI({
+      /**
+       * Logical replacement for a physical property/value pair, or null when there is none
+       */
+      getLogicalEquivalent: function(property: string, value: string): string | null {
+        const sides: Record<string, string> = { left: 'start', right: 'end' };
+
+        const boxMatch = property.match(/^(margin|padding|border)-(left|right)(-(width|style|color))?$/);
+        if (boxMatch) {
+          return `${boxMatch[1]}-inline-${sides[boxMatch[2]]}${boxMatch[3] || ''}: ${value}`;
+        }
+
+        if (property === 'left' || property === 'right') {
+          return `inset-inline-${sides[property]}: ${value}`;
+        }
+
+        if ((property === 'text-align' || property === 'float' || property === 'clear') &&
+            (value === 'left' || value === 'right')) {
+          const logical = property === 'text-align' ? sides[value] : `inline-${sides[value]}`;
+          return `${property}: ${logical}`;
+        }
+
+        return null;
+      },
+
+      /**
+       * Style rules from every readable stylesheet, including those nested in @media and @supports
+       */
+      collectStyleRules: function(): CSSStyleRule[] {
+        const styleRules: CSSStyleRule[] = [];
+
+        const visit = (rules: CSSRuleList) => {
+          for (const rule of Array.from(rules)) {
+            if ((rule as CSSStyleRule).selectorText !== undefined) {
+              styleRules.push(rule as CSSStyleRule);
+            } else if ((rule as CSSGroupingRule).cssRules) {
+              visit((rule as CSSGroupingRule).cssRules);
+            }
+          }
+        };
+
+        for (const sheet of Array.from(document.styleSheets)) {
+          try {
+            visit(sheet.cssRules);
+          } catch (e) {
+            // Cross-origin stylesheet, skip
+          }
+        }
+
+        return styleRules;
+      },
+
+      /**
+       * Physical properties in a declaration block that would not mirror in RTL
+       * Symmetric pairs (margin-left and margin-right set to the same value) mirror fine and are skipped
+       */
+      getPhysicalDeclarations: function(style: CSSStyleDeclaration): Array<{ property: string; value: string; logical: string }> {
+        const declarations: Array<{ property: string; value: string; logical: string }> = [];
+        const neutral = ['', '0', '0px', 'auto', 'none', 'initial', 'inherit', 'unset', 'revert'];
+
+        const properties = [
+          'margin-left', 'margin-right', 'padding-left', 'padding-right',
+          'border-left-width', 'border-right-width', 'left', 'right',
+          'text-align', 'float', 'clear',
+        ];
+
+        for (const property of properties) {
+          const value = style.getPropertyValue(property).trim();
+          // left: 0 still pins an element to the wrong side; a zero margin does not
+          const isOffset = property === 'left' || property === 'right';
+          if (neutral.includes(value) && !(isOffset && (value === '0' || value === '0px'))) continue;
+
+          const mirrored = property.includes('left')
+            ? property.replace('left', 'right')
+            : property.includes('right') ? property.replace('right', 'left') : null;
+          if (mirrored && style.getPropertyValue(mirrored).trim() === value) continue;
+
+          const logical = this.getLogicalEquivalent(property, value);
+          if (logical) {
+            declarations.push({ property, value, logical });
+          }
+        }
+
+        return declarations;
+      },
+
+      /**
+       * Find stylesheet rules and inline styles using physical properties on elements in the page
+       */
+      findPhysicalProperties: function(params: any = {}) {
+        const { limit = 100 } = params;
+        const issues: any[] = [];
+
+        try {
+          for (const rule of this.collectStyleRules()) {
+            // Rules already scoped to a direction are the fix, not the problem
+            if (/\[dir|:dir\(|\brtl\b|\bltr\b/i.test(rule.selectorText)) continue;
+
+            const declarations = this.getPhysicalDeclarations(rule.style);
+            if (declarations.length === 0) continue;
+
+            let elements: Element[] = [];
+            try {
+              const selector = rule.selectorText.replace(/::?(before|after|placeholder|marker|selection|first-line|first-letter)\b/g, '');
+              elements = Array.from(document.querySelectorAll(selector || '*'));
+            } catch (e) {
+              continue; // Invalid selector for querySelectorAll, skip
+            }
+
+            // Offsets only matter on positioned elements
+            const positioned = elements.filter(el => window.getComputedStyle(el).position !== 'static');
+
+            for (const declaration of declarations) {
+              const matched = declaration.property === 'left' || declaration.property === 'right' ? positioned : elements;
+              if (matched.length === 0) continue;
+
+              issues.push({
+                selector: rule.selectorText,
+                ...declaration,
+                elements: matched.length,
+                source: 'stylesheet',
+              });
+            }
+          }
+
+          for (const el of Array.from(document.querySelectorAll('[style]'))) {
+            const element = el as HTMLElement;
+            const declarations = this.getPhysicalDeclarations(element.style);
+            const positioned = window.getComputedStyle(element).position !== 'static';
+
+            for (const declaration of declarations) {
+              if ((declaration.property === 'left' || declaration.property === 'right') && !positioned) continue;
+
+              issues.push({
+                selector: this.getElementSelector(element),
+                ...declaration,
+                elements: 1,
+                source: 'inline',
+              });
+            }
+          }
+
+          issues.sort((a, b) => b.elements - a.elements);
+
+          return {
+            success: true,
+            issues: issues.slice(0, limit),
+            count: issues.length,
+          };
+        } catch (error: any) {
+          return {
+            success: false,
+            error: error.message,
+          };
+        }
+      },
+
+      /**
+       * Whether the element or one of its close ancestors is mirrored with a negative horizontal scale
+       */
+      isMirrored: function(element: Element): boolean {
+        let current: Element | null = element;
+
+        for (let depth = 0; current && depth < 4; depth++) {
+          const styles = window.getComputedStyle(current);
+          const matrix = styles.transform.match(/^matrix(3d)?\(([^,]+)/);
+          if (matrix && parseFloat(matrix[2]) < 0) return true;
+          if (styles.scale && parseFloat(styles.scale) < 0) return true;
+          current = current.parentElement;
+        }
+
+        return false;
+      },
+
+      /**
+       * Find arrows, chevrons and back/next icons that still point the LTR way in an RTL context
+       */
+      findUnflippedIcons: function() {
+        const issues: any[] = [];
+        const directional = /(arrow|chevron|caret|angle|triangle)[-_ ]?(left|right|back|forward|next|prev)|(left|right)[-_ ]?(arrow|chevron|caret|angle)|(^|[-_\s/])(next|prev|previous|forward|back)([-_\s.]|$)/i;
+        const textArrows = /[→←⇒⇐⟶⟵➔➜➝➞]/;
+
+        try {
+          const candidates = document.querySelectorAll('svg, img, i, span, [class*="icon"], [data-icon]');
+
+          for (const el of Array.from(candidates)) {
+            const element = el as HTMLElement;
+            const rect = element.getBoundingClientRect();
+            if (rect.width === 0 || rect.height === 0 || rect.width > 48 || rect.height > 48) continue;
+
+            const styles = window.getComputedStyle(element);
+            if (styles.direction !== 'rtl' || styles.visibility === 'hidden') continue;
+            if (element.closest('svg') && element.tagName.toLowerCase() !== 'svg') continue;
+
+            const className = typeof element.className === 'string'
+              ? element.className
+              : (element.className as any)?.baseVal || '';
+            const useHref = element.querySelector('use')?.getAttribute('href') || element.querySelector('use')?.getAttribute('xlink:href') || '';
+            const names = [
+              className,
+              element.id,
+              element.getAttribute('alt'),
+              element.getAttribute('aria-label'),
+              element.getAttribute('data-icon'),
+              element.getAttribute('src')?.split('/').pop(),
+              useHref,
+            ].filter(Boolean).join(' ');
+
+            const nameMatch = names.match(directional);
+            const ownText = Array.from(element.childNodes)
+              .filter(node => node.nodeType === Node.TEXT_NODE)
+              .map(node => node.textContent)
+              .join('');
+            const textMatch = ownText.match(textArrows);
+
+            if (!nameMatch && !textMatch) continue;
+            if (this.isMirrored(element)) continue;
+
+            issues.push({
+              selector: this.getElementSelector(element),
+              icon: nameMatch ? nameMatch[0].replace(/^[-_\s/]|[-_\s.]$/g, '') : textMatch[0],
+              reason: nameMatch
+                ? 'Directional icon is not mirrored (add transform: scaleX(-1) under [dir="rtl"])'
+                : 'Arrow character does not mirror in RTL text (swap it or use a mirrored icon)',
+            });
+          }
+
+          return {
+            success: true,
+            issues,
+            count: issues.length,
+          };
+        } catch (error: any) {
+          return {
+            success: false,
+            error: error.message,
+          };
+        }
+      },
+
+      /**
+       * Find visible elements cut off by the left edge of the viewport
+       * Elements moved fully off-screen on purpose (skip links, visually hidden text) are ignored
+       */
+      findLeftEdgeOverflow: function() {
+        const issues: any[] = [];
+        const reported: Element[] = [];
+
+        try {
+          for (const el of Array.from(document.body.querySelectorAll('*'))) {
+            const element = el as HTMLElement;
+            const styles = window.getComputedStyle(element);
+            if (element.offsetParent === null && styles.position !== 'fixed') continue;
+            if (styles.visibility === 'hidden') continue;
+
+            const rect = element.getBoundingClientRect();
+            const left = rect.left + window.pageXOffset;
+            if (left >= -1 || rect.right + window.pageXOffset <= 0 || rect.width <= 1 || rect.height <= 1) continue;
+
+            if (this.isInScrollableContainer(element)) continue;
+            if (reported.some(parent => parent.contains(element))) continue;
+
+            reported.push(element);
+            issues.push({
+              selector: this.getElementSelector(element),
+              overflow: Math.round(-left),
+              width: Math.round(rect.width),
+            });
+          }
+
+          const root = document.documentElement;
+          return {
+            success: true,
+            issues,
+            count: issues.length,
+            pageOverflow: Math.max(0, root.scrollWidth - root.clientWidth),
+          };
+        } catch (error: any) {
+          return {
+            success: false,
+            error: error.message,
+          };
+        }
+      },
+
+      /**
+       * Detect or force RTL and run every check
+       */
+      analyzeRTL: function(params: any = {}) {
+        const { force = false, highlight = false } = params;
+
+        try {
+          const root = document.documentElement;
+          const declaredDir = root.getAttribute('dir') || document.body.getAttribute('dir') || null;
+
+          let forced = false;
+          if (force && window.getComputedStyle(document.body).direction !== 'rtl') {
+            root.setAttribute('dir', 'rtl');
+            forced = true;
+          }
+
+          const direction = window.getComputedStyle(document.body).direction;
+          const physical = this.findPhysicalProperties(params);
+
+          // Mirroring and left-edge problems only exist once the page is laid out right to left
+          const icons = direction === 'rtl' ? this.findUnflippedIcons() : { success: true, issues: [], count: 0 };
+          const overflow = direction === 'rtl'
+            ? this.findLeftEdgeOverflow()
+            : { success: true, issues: [], count: 0, pageOverflow: 0 };
+
+          if (highlight) {
+            [...icons.issues, ...overflow.issues].forEach((issue: any) => {
+              try {
+                document.querySelectorAll(issue.selector).forEach(el => el.classList.add('uisentinel-rtl-marker'));
+              } catch (e) {
+                // Selector no longer resolves, skip
+              }
+            });
+          }
+
+          return {
+            success: true,
+            direction,
+            declaredDir,
+            lang: root.getAttribute('lang') || null,
+            forced,
+            physicalProperties: physical.success ? physical.issues : [],
+            unflippedIcons: icons.success ? icons.issues : [],
+            leftOverflows: overflow.success ? overflow.issues : [],
+            pageOverflow: overflow.success ? overflow.pageOverflow : 0,
+            summary: {
+              physicalProperties: physical.count || 0,
+              unflippedIcons: icons.count || 0,
+              leftOverflows: overflow.count || 0,
+              total: (physical.count || 0) + (icons.count || 0) + (overflow.count || 0),
+            },
+          };
+        } catch (error: any) {
+          return {
+            success: false,
+            error: error.message,
+          };
+        }
+      },
+
+      /**
+       * Check if element is in a horizontally scrollable container (intentional overflow)
+       */
+      isInScrollableContainer: function(element: HTMLElement): boolean {
+        let parent = element.parentElement;
+
+        while (parent && parent !== document.body) {
+          const overflowX = window.getComputedStyle(parent).overflowX;
+          if (overflowX === 'auto' || overflowX === 'scroll' || overflowX === 'hidden') {
+            return true;
+          }
+          parent = parent.parentElement;
+        }
+
+        return false;
+      },
+
+      /**
+       * Helper to get element selector
+       */
+      getElementSelector: function(element: Element): string {
+        if (element.id) {
+          return `#${element.id}`;
+        }
+
+        let selector = element.tagName.toLowerCase();
+        const className = typeof (element as HTMLElement).className === 'string'
+          ? (element as HTMLElement).className
+          : element.getAttribute('class') || '';
+        const classes = className.trim().split(/\s+/);
+        if (classes.length > 0 && classes[0]) {
+          selector += `.${classes[0]}`;
+        }
+
+        return selector;
+      }
+    });
+  }
+
+  /**
+   * Generate CSS styles
+   */
+  getStyles(): string {
+    return `
+      /* RTL Inspector styles */
+      .uisentinel-rtl-marker {
+        outline: 3px dashed #ff6b6b !important;
+        outline-offset: 2px !important;
+      }
+    `;
+  }
+}
@@ -32,7 +32,7 @@ export class ViewportScreenshotExtension extends BaseExtension {
     outputName?: string;
     waitForLoad?: boolean;
     scrollDelay?: number;
-    device?: 'desktop' | 'tablet' | 'mobile' | 'custom';
+    device?: string; // desktop, tablet, mobile, custom, or a preset/device name already applied to the page
     viewport?: { width: number; height: number };
     overlap?: number; // Overlap between views in pixels (default: 50px)
     expectation?: string;
@@ -66,7 +66,8 @@ export class ViewportScreenshotExtension extends BaseExtension {
         mobile: { width: 375, height: 667 },
         custom: page.viewportSize() || { width: 1920, height: 1080 },
       };
-      await page.setViewportSize(deviceViewports[device]);
+      // Other presets and device names are applied when the page is created
+      await page.setViewportSize(deviceViewports[device] || deviceViewports.custom);
     }
 
     const currentViewport = page.viewportSize();
@@ -149,16 +150,21 @@ export class ViewportScreenshotExtension extends BaseExtension {
 
   /**
    * Capture views for multiple devices
+   * @param page - Page to resize for each device, or null when openPage is given
    */
-  async captureViewsMultiDevice(page: Page, options: {
+  async captureViewsMultiDevice(page: Page | null, options: {
     outputName?: string;
-    devices?: Array<'desktop' | 'tablet' | 'mobile'>;
+    devices?: string[];
+    openPage?: (device: string) => Promise<Page>; // Capture each device on its own page instead of resizing this one
+    closePage?: (page: Page, device: string) => Promise<void>; // Closes pages from openPage (default: page.close())
     overlap?: number;
     expectation?: string;
   } = {}): Promise<any> {
     const {
       outputName = 'multidevice-views',
       devices = ['desktop', 'tablet', 'mobile'],
+      openPage,
+      closePage = (devicePage: Page) => devicePage.close(),
       overlap = 50,
       expectation,
     } = options;
@@ -167,13 +173,19 @@ export class ViewportScreenshotExtension extends BaseExtension {
     const results: any[] = [];
 
     for (const device of devices) {
-      const result = await this.captureViews(page, {
-        outputName: `${outputName}-${device}-${timestamp}`,
-        device,
-        overlap,
-        expectation,
-      });
-      results.push(result);
+      const devicePage = openPage ? await openPage(device) : page;
+      try {
+        results.push(await this.captureViews(devicePage, {
+          outputName: `${outputName}-${device.replace(/[^a-zA-Z0-9_-]+/g, '-')}-${timestamp}`,
+          device,
+          overlap,
+          expectation,
+        }));
+      } finally {
+        if (openPage) {
+          await closePage(devicePage, device);
+        }
+      }
     }
 
     const summary = {
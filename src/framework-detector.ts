@@ -1,24 +1,37 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { Framework, FrameworkDetectionResult } from './types';
+import { Framework, FrameworkDetectionResult, WorkspaceApp, WorkspaceInfo, WorkspaceTool } from './types';
 
 /**
  * Detects the web framework used in a project
+ * In a monorepo, detects the workspace app chosen with `app` (or the only one there is)
  */
 export class FrameworkDetector {
   private projectPath: string;
+  private app?: string;
 
-  constructor(projectPath: string) {
+  constructor(projectPath: string, app?: string) {
     this.projectPath = path.resolve(projectPath);
+    this.app = app;
   }
 
   /**
    * Detect the framework and return start command
    */
   async detect(): Promise<FrameworkDetectionResult> {
+    const workspace = await this.detectWorkspace();
+    if (this.app && !workspace) {
+      throw new Error(`Cannot select app "${this.app}": ${this.projectPath} is not a pnpm, yarn, npm, Turborepo or Nx workspace.`);
+    }
+
     // Check for package.json
     const packageJsonPath = path.join(this.projectPath, 'package.json');
-    
+
+    // A workspace root is only run itself when it is an app and no app was asked for
+    if (workspace && (this.app || (workspace.apps.length > 0 && !this.isRootApp(packageJsonPath)))) {
+      return this.detectWorkspaceApp(workspace);
+    }
+
     if (fs.existsSync(packageJsonPath)) {
       const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
       return this.detectFromPackageJson(packageJson);
@@ -54,6 +67,94 @@ export class FrameworkDetector {
       };
     }
 
+    // Meta-frameworks built on Vite list it as a dependency too, so they are checked first
+
+    // Remix
+    if (deps['@remix-run/dev'] || deps['@remix-run/react']) {
+      const usesVite = !!deps['vite'] || /vite/.test(scripts.dev || '');
+      const command = scripts.dev || (usesVite ? 'remix vite:dev' : 'remix dev');
+      return {
+        framework: 'remix',
+        confidence: 100,
+        command,
+        port: this.extractPortFromCommand(command) || (usesVite ? 5173 : 3000),
+        lockFile: this.detectLockFile(),
+        configFile: usesVite
+          ? this.findConfigFile(['vite.config.ts', 'vite.config.js', 'vite.config.mjs'])
+          : this.findConfigFile(['remix.config.js', 'remix.config.mjs', 'remix.config.cjs']),
+        readyPattern: usesVite ? /Local:\s+https?:\/\// : /\[remix-serve\]|App Server started/,
+      };
+    }
+
+    // Nuxt
+    if (deps['nuxt'] || deps['nuxt3']) {
+      const command = scripts.dev || 'nuxi dev';
+      return {
+        framework: 'nuxt',
+        confidence: 100,
+        command,
+        port: this.extractPortFromCommand(command) || 3000,
+        lockFile: this.detectLockFile(),
+        configFile: this.findConfigFile(['nuxt.config.ts', 'nuxt.config.js', 'nuxt.config.mjs']),
+        readyPattern: /Local:\s+https?:\/\/|Listening on:?\s+https?:\/\//,
+      };
+    }
+
+    // Gatsby
+    if (deps['gatsby']) {
+      const command = scripts.develop || scripts.dev || scripts.start || 'gatsby develop';
+      return {
+        framework: 'gatsby',
+        confidence: 100,
+        command,
+        port: this.extractPortFromCommand(command) || 8000,
+        lockFile: this.detectLockFile(),
+        configFile: this.findConfigFile(['gatsby-config.ts', 'gatsby-config.js', 'gatsby-config.mjs']),
+        readyPattern: /You can now view .* in the browser/,
+      };
+    }
+
+    // Qwik (Qwik City or plain Qwik)
+    if (deps['@builder.io/qwik-city'] || deps['@builder.io/qwik']) {
+      const command = scripts.dev || scripts.start || 'vite --mode ssr';
+      return {
+        framework: 'qwik',
+        confidence: 100,
+        command,
+        port: this.extractPortFromCommand(command) || 5173,
+        lockFile: this.detectLockFile(),
+        configFile: this.findConfigFile(['vite.config.ts', 'vite.config.js', 'vite.config.mjs']),
+        readyPattern: /Local:\s+https?:\/\//,
+      };
+    }
+
+    // SolidStart (1.x runs on Vinxi, earlier releases ship the solid-start CLI)
+    if (deps['@solidjs/start'] || deps['solid-start']) {
+      const command = scripts.dev || (deps['@solidjs/start'] ? 'vinxi dev' : 'solid-start dev');
+      return {
+        framework: 'solid-start',
+        confidence: 100,
+        command,
+        port: this.extractPortFromCommand(command) || 3000,
+        lockFile: this.detectLockFile(),
+        configFile: this.findConfigFile(['app.config.ts', 'app.config.js', 'vite.config.ts', 'vite.config.js']),
+        readyPattern: /Local:\s+https?:\/\//,
+      };
+    }
+
+    // SvelteKit
+    if (deps['@sveltejs/kit']) {
+      const command = scripts.dev || 'vite dev';
+      return {
+        framework: 'svelte-kit',
+        confidence: 100,
+        command,
+        port: this.extractPortFromCommand(command) || 5173,
+        lockFile: this.detectLockFile(),
+        configFile: 'svelte.config.js',
+      };
+    }
+
     // Vite detection
     if (deps['vite']) {
       const command = scripts.dev || scripts.start || 'npm run dev';
@@ -92,29 +193,33 @@ export class FrameworkDetector {
       };
     }
 
-    // SvelteKit
-    if (deps['@sveltejs/kit']) {
-      const command = scripts.dev || 'vite dev';
+    // Astro
+    if (deps['astro']) {
+      const command = scripts.dev || 'astro dev';
       return {
-        framework: 'svelte-kit',
+        framework: 'astro',
         confidence: 100,
         command,
-        port: this.extractPortFromCommand(command) || 5173,
+        port: this.extractPortFromCommand(command) || 3000,
         lockFile: this.detectLockFile(),
-        configFile: 'svelte.config.js',
+        configFile: 'astro.config.mjs',
       };
     }
 
-    // Astro
-    if (deps['astro']) {
-      const command = scripts.dev || 'astro dev';
+    // Eleventy
+    if (deps['@11ty/eleventy']) {
+      const command = scripts.dev || scripts.start || scripts.serve || 'eleventy --serve';
       return {
-        framework: 'astro',
+        framework: 'eleventy',
         confidence: 100,
         command,
-        port: this.extractPortFromCommand(command) || 3000,
+        port: this.extractPortFromCommand(command) || 8080,
         lockFile: this.detectLockFile(),
-        configFile: 'astro.config.mjs',
+        configFile: this.findConfigFile([
+          'eleventy.config.js', 'eleventy.config.mjs', 'eleventy.config.cjs',
+          '.eleventy.js', '.eleventy.cjs',
+        ]),
+        readyPattern: /Server at https?:\/\//,
       };
     }
 
@@ -143,6 +248,242 @@ export class FrameworkDetector {
     throw new Error('Unable to detect framework or find suitable start command.');
   }
 
+  /**
+   * Workspace tools and apps, or null when the project is not a monorepo root
+   * Reads pnpm-workspace.yaml, package.json workspaces (npm, yarn, bun), turbo.json and nx.json
+   */
+  async detectWorkspace(): Promise<WorkspaceInfo | null> {
+    const packageJson = this.readJson(path.join(this.projectPath, 'package.json'));
+    const pnpmWorkspace = path.join(this.projectPath, 'pnpm-workspace.yaml');
+    const nxJson = this.readJson(path.join(this.projectPath, 'nx.json'));
+    const tools: WorkspaceTool[] = [];
+    const patterns: string[] = [];
+
+    if (fs.existsSync(pnpmWorkspace)) {
+      tools.push('pnpm');
+      patterns.push(...this.readPnpmWorkspace(pnpmWorkspace));
+    } else if (packageJson?.workspaces) {
+      const packageManager = this.getPackageManager();
+      tools.push(packageManager === 'pnpm' ? 'npm' : packageManager);
+      // yarn also accepts { packages: [...] }
+      patterns.push(...(Array.isArray(packageJson.workspaces) ? packageJson.workspaces : packageJson.workspaces.packages || []));
+    }
+
+    if (fs.existsSync(path.join(this.projectPath, 'turbo.json'))) {
+      tools.push('turbo');
+    }
+
+    if (nxJson) {
+      tools.push('nx');
+      if (patterns.length === 0) {
+        // Integrated Nx repos keep projects in apps/ and libs/ without package manager workspaces
+        const layout = nxJson.workspaceLayout || {};
+        patterns.push(`${layout.appsDir || 'apps'}/**`, `${layout.libsDir || 'libs'}/**`);
+      }
+    }
+
+    if (tools.length === 0) {
+      return null;
+    }
+
+    const excluded = new Set(
+      patterns.filter(p => p.startsWith('!')).flatMap(p => this.expandWorkspacePattern(p.slice(1)))
+    );
+    const directories = Array.from(new Set(
+      patterns.filter(p => !p.startsWith('!')).flatMap(p => this.expandWorkspacePattern(p))
+    )).filter(dir => !excluded.has(dir));
+
+    const apps = directories
+      .map(dir => this.detectApp(dir))
+      .filter((app): app is WorkspaceApp => app !== null)
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    return {
+      root: this.projectPath,
+      tools,
+      packageManager: tools[0] === 'pnpm' ? 'pnpm' : this.getPackageManager(),
+      apps,
+    };
+  }
+
+  /**
+   * Whether the root package.json is an app in its own right rather than just scripts for the workspace
+   */
+  private isRootApp(packageJsonPath: string): boolean {
+    const packageJson = this.readJson(packageJsonPath);
+    if (!packageJson) {
+      return false;
+    }
+    try {
+      return this.detectFromPackageJson(packageJson).framework !== 'custom';
+    } catch {
+      return false;
+    }
+  }
+
+  private async detectWorkspaceApp(workspace: WorkspaceInfo): Promise<FrameworkDetectionResult> {
+    const names = workspace.apps.map(app => `${app.name} (${app.framework}, ${app.path})`).join(', ') || 'none found';
+    let app: WorkspaceApp | undefined;
+
+    if (this.app) {
+      app = workspace.apps.find(a => a.name === this.app)
+        || workspace.apps.find(a => a.path === this.app || path.basename(a.path) === this.app);
+      if (!app) {
+        throw new Error(`No workspace app named "${this.app}". Apps: ${names}`);
+      }
+    } else if (workspace.apps.length === 1) {
+      app = workspace.apps[0];
+    } else {
+      throw new Error(
+        `${this.projectPath} is a workspace with ${workspace.apps.length} apps: ${names}. ` +
+        'Choose one with --app <name> or project.app in uisentinel.config.js.'
+      );
+    }
+
+    const appPath = path.join(this.projectPath, app.path);
+    const packageJson = this.readJson(path.join(appPath, 'package.json'));
+    const result: FrameworkDetectionResult = app.script
+      ? new FrameworkDetector(appPath).detectFromPackageJson(packageJson)
+      : {
+        framework: app.framework,
+        confidence: 100,
+        command: `nx run ${app.name}:${app.target}`,
+        port: app.port,
+        configFile: 'project.json',
+      };
+
+    return {
+      ...result,
+      lockFile: this.detectLockFile(),
+      workspace,
+      app,
+    };
+  }
+
+  /**
+   * A workspace package that can be started: one with a dev script or an Nx serve target
+   */
+  private detectApp(dir: string): WorkspaceApp | null {
+    const relativePath = path.relative(this.projectPath, dir).split(path.sep).join('/');
+    const packageJson = this.readJson(path.join(dir, 'package.json'));
+    const project = this.readJson(path.join(dir, 'project.json'));
+    const scripts = packageJson?.scripts || {};
+
+    if (packageJson && (scripts.dev || scripts.develop || scripts.start || scripts.serve)) {
+      try {
+        const result = new FrameworkDetector(dir).detectFromPackageJson(packageJson);
+        const script = Object.keys(scripts).find(name => scripts[name] === result.command);
+        // Libraries have dev scripts too, usually a compiler in watch mode
+        const isLibrary = result.framework === 'custom' && /--watch\b|\s-w\b/.test(result.command);
+        if (script && !isLibrary) {
+          return {
+            name: packageJson.name || path.basename(dir),
+            path: relativePath,
+            framework: result.framework,
+            port: result.port,
+            script,
+          };
+        }
+      } catch {
+        // Not startable through its package.json; it may still have an Nx target
+      }
+    }
+
+    const targets = project?.targets || {};
+    const target = ['serve', 'dev'].find(name => targets[name]);
+    if (target) {
+      const executor: string = targets[target].executor || '';
+      const framework: Framework = /next/.test(executor) ? 'nextjs'
+        : /angular/.test(executor) ? 'angular'
+        : /remix/.test(executor) ? 'remix'
+        : /vite/.test(executor) ? 'vite'
+        : 'custom';
+      return {
+        name: project.name || packageJson?.name || path.basename(dir),
+        path: relativePath,
+        framework,
+        // Nx serves on 4200 unless the target says otherwise; its Next.js executor uses Next's 3000
+        port: targets[target].options?.port || (framework === 'nextjs' ? 3000 : 4200),
+        target,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Package globs from pnpm-workspace.yaml's `packages:` list
+   */
+  private readPnpmWorkspace(file: string): string[] {
+    const patterns: string[] = [];
+    let inPackages = false;
+
+    for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+      if (/^packages:\s*$/.test(line)) {
+        inPackages = true;
+        continue;
+      }
+      if (!inPackages) {
+        continue;
+      }
+      const item = line.match(/^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+      if (item) {
+        patterns.push(item[1]);
+      } else if (/^\S/.test(line)) {
+        inPackages = false;
+      }
+    }
+
+    return patterns;
+  }
+
+  /**
+   * Directories matching a workspace glob such as `apps/*`, `packages/**` or `docs`
+   */
+  private expandWorkspacePattern(pattern: string): string[] {
+    const segments = pattern.replace(/^\.\//, '').replace(/\/$/, '').split('/').filter(Boolean);
+
+    const subdirectories = (dir: string): string[] => {
+      try {
+        return fs.readdirSync(dir, { withFileTypes: true })
+          .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+          .map(entry => path.join(dir, entry.name));
+      } catch {
+        return [];
+      }
+    };
+
+    const walk = (dir: string, rest: string[]): string[] => {
+      if (rest.length === 0) {
+        const isProject = fs.existsSync(path.join(dir, 'package.json')) || fs.existsSync(path.join(dir, 'project.json'));
+        return isProject ? [dir] : [];
+      }
+
+      const [segment, ...remaining] = rest;
+      if (segment === '**') {
+        return [...walk(dir, remaining), ...subdirectories(dir).flatMap(sub => walk(sub, rest))];
+      }
+      if (segment.includes('*')) {
+        const escaped = segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+        const matcher = new RegExp(`^${escaped.join('.*')}$`);
+        return subdirectories(dir)
+          .filter(sub => matcher.test(path.basename(sub)))
+          .flatMap(sub => walk(sub, remaining));
+      }
+      return fs.existsSync(path.join(dir, segment)) ? walk(path.join(dir, segment), remaining) : [];
+    };
+
+    return walk(this.projectPath, segments);
+  }
+
+  private readJson(file: string): any {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
   private hasHtmlFiles(): boolean {
     const htmlFiles = fs.readdirSync(this.projectPath)
       .filter(file => file.endsWith('.html'));
@@ -159,9 +500,16 @@ export class FrameworkDetector {
     return undefined;
   }
 
+  /**
+   * First of the candidate config files present in the project
+   */
+  private findConfigFile(candidates: string[]): string | undefined {
+    return candidates.find(file => fs.existsSync(path.join(this.projectPath, file)));
+  }
+
   private extractPortFromCommand(command: string): number | null {
-    // Look for --port or -p flags
-    const portMatch = command.match(/(?:--port|-p)\s+(\d+)/);
+    // Look for --port or -p flags, e.g. --port 3000 or --port=3000
+    const portMatch = command.match(/(?:--port|-p)[=\s]+(\d+)/);
     if (portMatch) {
       return parseInt(portMatch[1], 10);
     }
@@ -1,13 +1,35 @@
 import * as path from 'path';
 import * as fs from 'fs';
+import { Page } from 'playwright';
 import { ServerManager } from './server-manager';
-import { BrowserEngine } from './browser-engine';
+import { BrowserEngine, CaptureError } from './browser-engine';
 import { VisualDiff } from './visual-diff';
+import { LayoutDiff } from './layout-diff';
+import { ReportGenerator } from './report-generator';
 import {
   UISentinelConfig,
   CaptureOptions,
   ValidationResult,
   ViewportPreset,
+  Viewport,
+  Action,
+  ScreenshotResult,
+  AccessibilityResult,
+  AccessibilityOptions,
+  AccessibilityStandard,
+  ContrastResult,
+  MobileUXResult,
+  LayoutAnalysis,
+  RuntimeReport,
+  NetworkSummary,
+  MediaEmulation,
+  VisionDeficiency,
+  LocaleIssue,
+  AssertionResult,
+  Scenario,
+  RTLCheckResult,
+  BaselineMetadata,
+  ReportFormat,
 } from './types';
 
 /**
@@ -22,8 +44,12 @@ export class UISentinel {
 
   constructor(config: UISentinelConfig = {}) {
     this.config = this.mergeConfig(config);
-    this.serverManager = new ServerManager(this.config.projectPath);
+    this.serverManager = new ServerManager(this.config.projectPath, this.config.server, this.config.project.app);
     this.browserEngine = new BrowserEngine(this.config.output.directory);
+    this.browserEngine.setAuth(this.config.auth);
+    this.browserEngine.setEmulation(this.config.emulation);
+    this.browserEngine.setLocale(this.config.locale);
+    this.browserEngine.setViewportPresets(this.config.viewportPresets);
     this.visualDiff = new VisualDiff(this.config.output.directory);
   }
 
@@ -37,22 +63,324 @@ export class UISentinel {
 
     console.log('🚀 Starting uisentinel...');
 
-    // Start server if project path is provided and is a valid directory
-    if (this.config.projectPath && this.config.projectPath !== process.cwd()) {
+    // Start or attach to a server if a project path, workspace app or server URL/command is configured
+    const { url, command } = this.config.server;
+    const { app } = this.config.project;
+    if ((this.config.projectPath && this.config.projectPath !== process.cwd()) || app || url || command) {
       const serverInfo = await this.serverManager.start(this.config.port);
-      console.log(`✓ Server started at ${serverInfo.url}`);
+      console.log(serverInfo.external ? `✓ Attached to server at ${serverInfo.url}` : `✓ Server started at ${serverInfo.url}`);
       this.config.host = serverInfo.url;
       this.config.port = serverInfo.port;
     }
 
     // Initialize browser
-    await this.browserEngine.init(this.config.headless);
-    console.log('✓ Browser initialized');
+    await this.browserEngine.init(this.config.headless, this.config.browsers[0]);
+    console.log(`✓ Browser initialized (${this.browserEngine.getBrowserName()})`);
 
     this.isStarted = true;
   }
 
 
+  /**
+   * Capture screenshots and run validation for a single URL
+   */
+  async capture(options: CaptureOptions): Promise<ValidationResult> {
+    if (!this.isStarted) {
+      await this.start();
+    }
+
+    const timestamp = new Date().toISOString();
+
+    try {
+      const analysis = await this.browserEngine.capture({
+        ...options,
+        accessibility: options.accessibility === true ? this.getAccessibilityOptions() : options.accessibility,
+      });
+
+      // Write the interactive capture report next to the screenshots
+      const report = this.browserEngine.generateCaptureReport(
+        options,
+        analysis.screenshots,
+        analysis.accessibility,
+        analysis.assertions
+      );
+      if (report) {
+        fs.writeFileSync(path.join(path.resolve(this.config.output.directory), `${options.name}.md`), report);
+      }
+
+      return this.buildValidationResult(options.url, timestamp, analysis);
+    } catch (error) {
+      // A failing action keeps the screenshots, assertion results and page activity of the steps before it
+      if (error instanceof CaptureError) {
+        const hasAssertions = options.actions?.some(action => action.type === 'assert');
+        const result = this.buildValidationResult(options.url, timestamp, {
+          ...error.partial,
+          assertions: hasAssertions ? error.partial.assertions : undefined,
+        });
+        return { ...result, status: 'error', errors: [error.message, ...result.errors] };
+      }
+      return {
+        status: 'error',
+        url: options.url,
+        timestamp,
+        screenshots: [],
+        suggestions: [],
+        errors: [error instanceof Error ? error.message : String(error)],
+      };
+    }
+  }
+
+  /**
+   * Run a scenario loaded from a scenario file
+   * Opens its URL on each viewport, runs setup, actions and assertions as one sequence, then captures
+   * Relative URLs are resolved against config.host; viewports default to config.viewports
+   */
+  async runScenario(scenario: Scenario): Promise<ValidationResult> {
+    if (!this.isStarted) {
+      await this.start();
+    }
+
+    const result = await this.capture({
+      url: new URL(scenario.url, this.config.host).href,
+      name: scenario.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, ''),
+      description: scenario.description,
+      viewports: scenario.viewports || this.config.viewports,
+      actions: [...(scenario.setup || []), ...(scenario.actions || []), ...(scenario.assertions || [])],
+      waitForSelector: scenario.waitForSelector,
+      fullPage: scenario.fullPage,
+      accessibility: scenario.accessibility,
+      layoutAnalysis: true,
+    });
+
+    return { ...result, scenario: scenario.name, ...(scenario.source ? { scenarioSource: scenario.source } : {}) };
+  }
+
+  /**
+   * Validate every route against the configured host, once per configured viewport
+   * Captures with a saved baseline are compared against it automatically
+   * @param routes - Routes to visit (defaults to config.routes)
+   * @param options - Set compareBaselines to false to skip visual diffs, contrast to override config.contrast
+   * @returns One result per route/viewport pair
+   */
+  async validateRoutes(routes: string[] = this.config.routes, options: {
+    compareBaselines?: boolean;
+    contrast?: boolean;
+  } = {}): Promise<ValidationResult[]> {
+    if (!this.isStarted) {
+      await this.start();
+    }
+
+    const compareBaselines = options.compareBaselines ?? true;
+    const results: ValidationResult[] = [];
+
+    // The theme matrix captures every combination and checks contrast in each, unless the caller turned contrast off
+    const themes = this.config.themeMatrix.enabled ? this.getThemes() : [{}];
+    const contrast = options.contrast ?? (this.config.contrast.enabled || this.config.themeMatrix.enabled);
+
+    for (const browser of this.config.browsers) {
+      await this.browserEngine.init(this.config.headless, browser);
+
+      for (const route of routes) {
+        const url = this.resolveRouteUrl(route);
+
+        for (const viewport of this.config.viewports) {
+          const viewportName = typeof viewport === 'string' ? viewport : `${viewport.width}x${viewport.height}`;
+
+          for (const theme of themes) {
+            const emulation = { ...this.config.emulation, ...theme };
+            const themeName = this.browserEngine.describeEmulation(emulation);
+            console.log(`🔎 Validating ${route} (${[viewportName, browser, themeName].filter(Boolean).join(', ')})`);
+
+            const result = await this.capture({
+              url,
+              viewports: [viewport],
+              ...emulation,
+              screenshot: this.config.screenshot.enabled,
+              fullPage: this.config.screenshot.fullPage,
+              accessibility: this.config.accessibility.enabled,
+              contrast,
+              mobileUX: this.config.mobileUX.enabled,
+              network: this.config.network.enabled && {
+                har: this.config.network.har,
+                slowThreshold: this.config.network.slowThreshold,
+              },
+              layoutAnalysis: true,
+              waitForTimeout: this.config.timeout,
+              ignoreRegions: this.config.visualDiff.ignore,
+            });
+
+            result.route = route;
+            result.viewport = result.screenshots[0]?.viewport || viewportName;
+            result.browser = browser;
+            if (themeName) {
+              result.theme = themeName;
+              result.emulation = emulation;
+            }
+
+            if (compareBaselines) {
+              await this.compareWithBaseline(result);
+            }
+
+            results.push(result);
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Capture each route under several locales and flag text that overflows or gets truncated
+   * Issues are relative to the first locale, so overflow that is already there is not repeated
+   * @param routes - Routes to visit (defaults to config.routes)
+   * @param locales - Locales to compare (defaults to config.i18n.locales); the first is the reference
+   * @returns One result per route/viewport/locale, with issues in result.i18n
+   */
+  async sweepLocales(
+    routes: string[] = this.config.routes,
+    locales: string[] = this.config.i18n.locales
+  ): Promise<ValidationResult[]> {
+    if (!this.isStarted) {
+      await this.start();
+    }
+
+    const results: ValidationResult[] = [];
+
+    for (const route of routes) {
+      const url = this.resolveRouteUrl(route);
+
+      for (const viewport of this.config.viewports) {
+        const viewportName = typeof viewport === 'string' ? viewport : `${viewport.width}x${viewport.height}`;
+        let reference: LayoutAnalysis | undefined;
+
+        for (const locale of locales) {
+          console.log(`🌐 Checking ${route} (${viewportName}, ${locale})`);
+
+          const result = await this.capture({
+            url,
+            viewports: [viewport],
+            locale,
+            screenshot: this.config.screenshot.enabled,
+            fullPage: this.config.screenshot.fullPage,
+            layoutAnalysis: true,
+            viewportOverflow: true,
+            waitForTimeout: this.config.timeout,
+          });
+
+          result.route = route;
+          result.viewport = result.screenshots[0]?.viewport || viewportName;
+          result.browser = this.browserEngine.getBrowserName();
+          result.locale = locale;
+
+          if (locale === locales[0]) {
+            reference = result.layout;
+          } else if (!reference) {
+            // Without a reference every overflow would look new, so the comparison is skipped
+            result.errors.push(`No ${locales[0]} reference layout to compare against`);
+            result.status = 'error';
+          }
+
+          if (result.layout && reference) {
+            const issues = this.findLocaleIssues(reference, result.layout);
+            result.i18n = { reference: locales[0], issues };
+            issues.forEach(issue => result.suggestions.push(`[${locale}] ${issue.description}`));
+            if (issues.length > 0 && result.status === 'success') {
+              result.status = 'warning';
+            }
+          }
+
+          results.push(result);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Capture routes and save each screenshot as the baseline for its route/viewport pair
+   */
+  async saveBaselines(routes: string[] = this.config.routes): Promise<BaselineMetadata[]> {
+    // Only the screenshots and layout are kept
+    const results = await this.validateRoutes(routes, { compareBaselines: false, contrast: false });
+    const saved: BaselineMetadata[] = [];
+
+    for (const result of results) {
+      const screenshot = result.screenshots[0];
+      if (!screenshot) {
+        const context = [result.viewport, result.browser, result.theme].filter(Boolean).join(', ');
+        console.warn(`⚠ No screenshot captured for ${result.route} (${context}): ${result.errors.join('; ')}`);
+        continue;
+      }
+
+      saved.push(await this.visualDiff.saveBaseline(screenshot.path, {
+        route: result.route,
+        viewport: result.viewport,
+        browser: result.browser,
+        theme: result.theme,
+        url: result.url,
+        masks: screenshot.masks,
+      }, result.layout));
+    }
+
+    return saved;
+  }
+
+  /**
+   * Promote the latest captures to baselines
+   * @param names - Baselines to approve (defaults to every pending capture)
+   */
+  async approveBaselines(names: string[] = this.visualDiff.getPendingApprovals()): Promise<BaselineMetadata[]> {
+    const approved: BaselineMetadata[] = [];
+    for (const name of names) {
+      approved.push(await this.visualDiff.approveBaseline(name));
+    }
+    return approved;
+  }
+
+  /**
+   * Write a report of validation results
+   * @param format - json, html or markdown (defaults to config.output.format)
+   * @returns Path of the written report
+   */
+  async generateReport(
+    results: ValidationResult[],
+    format: ReportFormat = this.config.output.format,
+    options: { name?: string; title?: string } = {}
+  ): Promise<string> {
+    const generator = new ReportGenerator(this.config.output.directory);
+    return generator.generate(results, format, options);
+  }
+
+  /**
+   * List saved baselines
+   */
+  listBaselines(): BaselineMetadata[] {
+    return this.visualDiff.listBaselines();
+  }
+
+  /**
+   * Delete a saved baseline
+   */
+  deleteBaseline(name: string): boolean {
+    return this.visualDiff.deleteBaseline(name);
+  }
+
+  /**
+   * Get the visual diff engine for direct image comparisons
+   */
+  getVisualDiff(): VisualDiff {
+    return this.visualDiff;
+  }
+
+  /**
+   * Get the resolved configuration (user config merged with defaults)
+   */
+  getConfig(): Required<UISentinelConfig> {
+    return this.config;
+  }
+
   /**
    * Get the browser engine for advanced capture operations
    * Use this to access element-specific captures, clipping, zoom, etc.
@@ -68,7 +396,7 @@ export class UISentinel {
    * @returns Capture result with screenshot path and expectation validation
    */
   async captureFullPage(url: string, options: {
-    device?: 'desktop' | 'tablet' | 'mobile' | 'custom';
+    device?: ViewportPreset | 'custom';
     viewport?: { width: number; height: number };
     scrollToEnd?: boolean;
     scrollDelay?: number;
@@ -83,7 +411,7 @@ export class UISentinel {
     const extension = new FullPageScreenshotExtension();
     extension.setOutputDir(this.config.output.directory);
 
-    const page = await this.browserEngine.createPage(url, options.device as ViewportPreset || 'desktop');
+    const page = await this.browserEngine.createPage(url, options.device && options.device !== 'custom' ? options.device : options.viewport || 'desktop');
 
     const result = await extension.capture(page, {
       device: options.device,
@@ -94,15 +422,16 @@ export class UISentinel {
       expectation: options.expectations,
     });
 
-    await page.close();
-    return result;
+    const runtime = await this.browserEngine.closePage(page);
+    return { ...result, runtime };
   }
 
   /**
    * Capture full page screenshots across multiple devices
+   * Each entry in results carries the runtime report of its device's page
    */
   async captureFullPageMulti(url: string, options: {
-    devices?: ('desktop' | 'tablet' | 'mobile')[];
+    devices?: ViewportPreset[];
     outputName?: string;
     expectations?: string;
   } = {}): Promise<any> {
@@ -114,23 +443,26 @@ export class UISentinel {
     const extension = new FullPageScreenshotExtension();
     extension.setOutputDir(this.config.output.directory);
 
-    const page = await this.browserEngine.createPage(url, 'desktop');
-
-    const result = await extension.captureMultiDevice(page, {
+    const runtime = new Map<string, RuntimeReport | undefined>();
+    const result = await extension.captureMultiDevice(null, {
       devices: options.devices || ['desktop', 'tablet', 'mobile'],
+      // Each device gets its own page so its user agent, touch support and pixel ratio apply
+      openPage: (device) => this.browserEngine.createPage(url, device),
+      closePage: async (page, device) => {
+        runtime.set(device, await this.browserEngine.closePage(page));
+      },
       outputName: options.outputName,
       expectation: options.expectations,
     });
 
-    await page.close();
-    return result;
+    return { ...result, results: result.results.map((r: any) => ({ ...r, runtime: runtime.get(r.device) })) };
   }
 
   /**
    * Capture view-by-view screenshots with window-wise scrolling
    */
   async captureViews(url: string, options: {
-    device?: 'desktop' | 'tablet' | 'mobile' | 'custom';
+    device?: ViewportPreset | 'custom';
     viewport?: { width: number; height: number };
     overlap?: number;
     scrollDelay?: number;
@@ -145,7 +477,7 @@ export class UISentinel {
     const extension = new ViewportScreenshotExtension();
     extension.setOutputDir(this.config.output.directory);
 
-    const page = await this.browserEngine.createPage(url, options.device as ViewportPreset || 'desktop');
+    const page = await this.browserEngine.createPage(url, options.device && options.device !== 'custom' ? options.device : options.viewport || 'desktop');
 
     const result = await extension.captureViews(page, {
       device: options.device,
@@ -156,15 +488,16 @@ export class UISentinel {
       expectation: options.expectations,
     });
 
-    await page.close();
-    return result;
+    const runtime = await this.browserEngine.closePage(page);
+    return { ...result, runtime };
   }
 
   /**
    * Capture view-by-view screenshots across multiple devices
+   * Each entry in results carries the runtime report of its device's page
    */
   async captureViewsMulti(url: string, options: {
-    devices?: ('desktop' | 'tablet' | 'mobile')[];
+    devices?: ViewportPreset[];
     overlap?: number;
     outputName?: string;
     expectations?: string;
@@ -177,24 +510,27 @@ export class UISentinel {
     const extension = new ViewportScreenshotExtension();
     extension.setOutputDir(this.config.output.directory);
 
-    const page = await this.browserEngine.createPage(url, 'desktop');
-
-    const result = await extension.captureViewsMultiDevice(page, {
+    const runtime = new Map<string, RuntimeReport | undefined>();
+    const result = await extension.captureViewsMultiDevice(null, {
       devices: options.devices || ['desktop', 'tablet', 'mobile'],
+      // Each device gets its own page so its user agent, touch support and pixel ratio apply
+      openPage: (device) => this.browserEngine.createPage(url, device),
+      closePage: async (page, device) => {
+        runtime.set(device, await this.browserEngine.closePage(page));
+      },
       overlap: options.overlap,
       outputName: options.outputName,
       expectation: options.expectations,
     });
 
-    await page.close();
-    return result;
+    return { ...result, results: result.results.map((r: any) => ({ ...r, runtime: runtime.get(r.device) })) };
   }
 
   /**
    * Inspect a specific element with optional action
    */
   async inspectElement(url: string, selector: string, options: {
-    viewport?: 'mobile' | 'tablet' | 'desktop';
+    viewport?: ViewportPreset;
     action?: 'click' | 'hover' | 'focus';
     captureViewport?: boolean;
     captureElement?: boolean;
@@ -223,7 +559,7 @@ export class UISentinel {
     const manager = this.browserEngine.getExtensionManager();
     manager.register(extension);
 
-    const page = await this.browserEngine.createPage(url, options.viewport as ViewportPreset || 'desktop');
+    const page = await this.browserEngine.createPage(url, options.viewport || 'desktop');
     await manager.injectExtension(page, 'element-inspector');
 
     let result: any;
@@ -254,15 +590,15 @@ export class UISentinel {
       });
     }
 
-    await page.close();
-    return result;
+    const runtime = await this.browserEngine.closePage(page);
+    return { ...result, runtime };
   }
 
   /**
    * Analyze responsive design patterns and fixed-width elements
    */
   async analyzeResponsive(url: string, options: {
-    viewport?: 'mobile' | 'tablet' | 'desktop';
+    viewport?: ViewportPreset;
     expectations?: string;
   } = {}): Promise<any> {
     if (!this.isStarted) {
@@ -275,12 +611,12 @@ export class UISentinel {
     const manager = this.browserEngine.getExtensionManager();
     manager.register(extension);
 
-    const page = await this.browserEngine.createPage(url, options.viewport as ViewportPreset || 'mobile');
+    const page = await this.browserEngine.createPage(url, options.viewport || 'mobile');
     await manager.injectExtension(page, 'responsive-design-inspector');
 
     const report = await manager.executeExtension(page, 'responsive-design-inspector', 'analyzeResponsiveness');
 
-    await page.close();
+    const runtime = await this.browserEngine.closePage(page);
 
     if (!report.success) {
       throw new Error(`Responsive analysis failed: ${report.error}`);
@@ -288,6 +624,7 @@ export class UISentinel {
 
     return {
       ...report.data,
+      runtime,
       expectations: options.expectations,
     };
   }
@@ -303,17 +640,19 @@ export class UISentinel {
     }
 
     const { MobileUXAnalyzer } = await import('./extensions/mobile-ux-analyzer');
-    const extension = new MobileUXAnalyzer();
 
+    // Captures may have registered it already
     const manager = this.browserEngine.getExtensionManager();
-    manager.register(extension);
+    if (!manager.getExtension('mobile-ux-analyzer')) {
+      manager.register(new MobileUXAnalyzer());
+    }
 
     const page = await this.browserEngine.createPage(url, 'mobile');
     await manager.injectExtension(page, 'mobile-ux-analyzer');
 
     const report = await manager.executeExtension(page, 'mobile-ux-analyzer', 'analyzeMobileUX');
 
-    await page.close();
+    const runtime = await this.browserEngine.closePage(page);
 
     if (!report.success) {
       throw new Error(`Mobile UX analysis failed: ${report.error}`);
@@ -321,6 +660,7 @@ export class UISentinel {
 
     return {
       ...report.data,
+      runtime,
       expectations: options.expectations,
     };
   }
@@ -329,24 +669,114 @@ export class UISentinel {
    * Check accessibility compliance using axe-core
    */
   async checkAccessibility(url: string, options: {
-    viewport?: 'mobile' | 'tablet' | 'desktop';
+    viewport?: ViewportPreset;
+    standard?: AccessibilityStandard;
     expectations?: string;
   } = {}): Promise<any> {
     if (!this.isStarted) {
       await this.start();
     }
 
-    const page = await this.browserEngine.createPage(url, options.viewport as ViewportPreset || 'desktop');
+    const page = await this.browserEngine.createPage(url, options.viewport || 'desktop');
     await page.waitForLoadState('networkidle');
 
     // Run axe-core accessibility checks
-    const result = await this.browserEngine.runAccessibilityChecks(page);
+    const accessibilityOptions = this.getAccessibilityOptions(options.standard);
+    const result = await this.browserEngine.runAccessibilityChecks(page, accessibilityOptions);
+
+    const runtime = await this.browserEngine.closePage(page);
+
+    return {
+      standard: this.describeStandard(accessibilityOptions.standard),
+      ...result,
+      runtime,
+      expectations: options.expectations,
+    };
+  }
+
+  /**
+   * Render the page under protanopia, deuteranopia, tritanopia and achromatopsia
+   * Returns each screenshot, a labeled grid, and elements that differ from their peers only by color
+   */
+  async simulateVisionDeficiencies(url: string, options: {
+    viewport?: ViewportPreset;
+    deficiencies?: VisionDeficiency[];
+    fullPage?: boolean;
+    outputName?: string;
+    expectations?: string;
+  } = {}): Promise<any> {
+    if (!this.isStarted) {
+      await this.start();
+    }
+
+    const page = await this.browserEngine.createPage(url, options.viewport || 'desktop');
+    const capture = this.browserEngine.getAdvancedCapture(page);
 
-    await page.close();
+    const result = await capture.captureVisionDeficiencies({
+      deficiencies: options.deficiencies,
+      fullPage: options.fullPage,
+      name: options.outputName,
+    });
+
+    const runtime = await this.browserEngine.closePage(page);
 
     return {
-      standard: 'WCAG 2.1 AA',
       ...result,
+      runtime,
+      expectations: options.expectations,
+    };
+  }
+
+  /**
+   * Check a right-to-left layout for mirroring problems
+   * Detects the page direction, or forces dir="rtl" when options.force is set
+   */
+  async checkRTL(url: string, options: {
+    viewport?: ViewportPreset;
+    force?: boolean;
+    highlight?: boolean;
+    fullPage?: boolean;
+    expectations?: string;
+  } = {}): Promise<RTLCheckResult & { runtime?: RuntimeReport; expectations?: string }> {
+    if (!this.isStarted) {
+      await this.start();
+    }
+
+    const { RTLInspector } = await import('./extensions/rtl-inspector');
+
+    const manager = this.browserEngine.getExtensionManager();
+    if (!manager.getExtension('rtl-inspector')) {
+      manager.register(new RTLInspector());
+    }
+
+    const page = await this.browserEngine.createPage(url, options.viewport || 'desktop');
+    await manager.injectExtension(page, 'rtl-inspector');
+
+    const result = await manager.executeExtension(page, 'rtl-inspector', 'analyzeRTL', {
+      params: {
+        force: options.force ?? false,
+        highlight: options.highlight ?? true,
+      },
+    });
+
+    let screenshotPath: string | undefined;
+    if (result.success && result.data.success) {
+      screenshotPath = path.join(this.config.output.directory, `rtl-check-${Date.now()}.png`);
+      await page.screenshot({ path: screenshotPath, fullPage: options.fullPage ?? true });
+    }
+
+    const runtime = await this.browserEngine.closePage(page);
+
+    if (!result.success || !result.data.success) {
+      throw new Error(`RTL check failed: ${result.error || result.data.error}`);
+    }
+
+    const { success, ...data } = result.data;
+    return {
+      url,
+      ...data,
+      screenshot: screenshotPath,
+      runtime,
       expectations: options.expectations,
     };
   }
@@ -362,17 +792,19 @@ export class UISentinel {
     }
 
     const { ContrastChecker } = await import('./extensions/contrast-checker');
-    const extension = new ContrastChecker();
 
+    // Captures may have registered it already
     const manager = this.browserEngine.getExtensionManager();
-    manager.register(extension);
+    if (!manager.getExtension('contrast-checker')) {
+      manager.register(new ContrastChecker());
+    }
 
     const page = await this.browserEngine.createPage(url, 'desktop');
     await manager.injectExtension(page, 'contrast-checker');
 
     const result = await manager.executeExtension(page, 'contrast-checker', 'checkContrast');
 
-    await page.close();
+    const runtime = await this.browserEngine.closePage(page);
 
     if (!result.success) {
       throw new Error(`Contrast check failed: ${result.error}`);
@@ -380,6 +812,7 @@ export class UISentinel {
 
     return {
       ...result.data,
+      runtime,
       expectations: options.expectations,
     };
   }
@@ -388,7 +821,7 @@ export class UISentinel {
    * Measure element dimensions, margins, padding with visual overlay
    */
   async measureElement(url: string, selector: string, options: {
-    viewport?: 'mobile' | 'tablet' | 'desktop';
+    viewport?: ViewportPreset;
     showDimensions?: boolean;
     showMargin?: boolean;
     showPadding?: boolean;
@@ -407,7 +840,7 @@ export class UISentinel {
     const manager = this.browserEngine.getExtensionManager();
     manager.register(extension);
 
-    const page = await this.browserEngine.createPage(url, options.viewport as ViewportPreset || 'desktop');
+    const page = await this.browserEngine.createPage(url, options.viewport || 'desktop');
     await manager.injectExtension(page, 'element-ruler');
 
     const params = {
@@ -448,7 +881,7 @@ export class UISentinel {
     );
     await page.screenshot({ path: screenshotPath, fullPage: false });
 
-    await page.close();
+    const runtime = await this.browserEngine.closePage(page);
 
     if (!result.success) {
       throw new Error(`Element measurement failed: ${result.error}`);
@@ -457,6 +890,7 @@ export class UISentinel {
     return {
       ...result.data,
       screenshot: screenshotPath,
+      runtime,
       expectations: options.expectations,
     };
   }
@@ -468,7 +902,7 @@ export class UISentinel {
     type?: string;
     highlightComponents?: boolean;
     includePosition?: boolean;
-    viewport?: 'mobile' | 'tablet' | 'desktop';
+    viewport?: ViewportPreset;
     expectations?: string;
   } = {}): Promise<any> {
     if (!this.isStarted) {
@@ -481,7 +915,7 @@ export class UISentinel {
     const manager = this.browserEngine.getExtensionManager();
     manager.register(extension);
 
-    const page = await this.browserEngine.createPage(url, options.viewport as ViewportPreset || 'desktop');
+    const page = await this.browserEngine.createPage(url, options.viewport || 'desktop');
     await manager.injectExtension(page, 'component-detector');
 
     let result: any;
@@ -511,7 +945,7 @@ export class UISentinel {
       await page.screenshot({ path: screenshotPath, fullPage: true });
     }
 
-    await page.close();
+    const runtime = await this.browserEngine.closePage(page);
 
     if (!result.success) {
       throw new Error(`Component detection failed: ${result.error}`);
@@ -520,6 +954,7 @@ export class UISentinel {
     return {
       ...result.data,
       screenshot: screenshotPath,
+      runtime,
       expectations: options.expectations,
     };
   }
@@ -534,7 +969,7 @@ export class UISentinel {
     maxWidth?: number;
     showRuler?: boolean;
     showCenterLines?: boolean;
-    viewport?: 'mobile' | 'tablet' | 'desktop';
+    viewport?: ViewportPreset;
     expectations?: string;
   } = {}): Promise<any> {
     if (!this.isStarted) {
@@ -547,7 +982,7 @@ export class UISentinel {
     const manager = this.browserEngine.getExtensionManager();
     manager.register(extension);
 
-    const page = await this.browserEngine.createPage(url, options.viewport as ViewportPreset || 'desktop');
+    const page = await this.browserEngine.createPage(url, options.viewport || 'desktop');
     await manager.injectExtension(page, 'layout-grid');
 
     let result: any;
@@ -579,7 +1014,7 @@ export class UISentinel {
     );
     await page.screenshot({ path: screenshotPath, fullPage: false });
 
-    await page.close();
+    const runtime = await this.browserEngine.closePage(page);
 
     if (!result.success) {
       throw new Error(`Layout grid failed: ${result.error}`);
@@ -588,6 +1023,7 @@ export class UISentinel {
     return {
       ...result.data,
       screenshot: screenshotPath,
+      runtime,
       expectations: options.expectations,
     };
   }
@@ -599,7 +1035,7 @@ export class UISentinel {
     position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
     showDimensions?: boolean;
     showOrientation?: boolean;
-    viewport?: 'mobile' | 'tablet' | 'desktop';
+    viewport?: ViewportPreset;
     expectations?: string;
   } = {}): Promise<any> {
     if (!this.isStarted) {
@@ -612,7 +1048,7 @@ export class UISentinel {
     const manager = this.browserEngine.getExtensionManager();
     manager.register(extension);
 
-    const page = await this.browserEngine.createPage(url, options.viewport as ViewportPreset || 'desktop');
+    const page = await this.browserEngine.createPage(url, options.viewport || 'desktop');
     await manager.injectExtension(page, 'breakpoint-visualizer');
 
     const result = await manager.executeExtension(page, 'breakpoint-visualizer', 'showBreakpoints', {
@@ -633,7 +1069,7 @@ export class UISentinel {
     );
     await page.screenshot({ path: screenshotPath, fullPage: false });
 
-    await page.close();
+    const runtime = await this.browserEngine.closePage(page);
 
     if (!result.success) {
       throw new Error(`Breakpoint visualization failed: ${result.error}`);
@@ -642,6 +1078,7 @@ export class UISentinel {
     return {
       ...result.data,
       screenshot: screenshotPath,
+      runtime,
       expectations: options.expectations,
     };
   }
@@ -650,7 +1087,7 @@ export class UISentinel {
    * Analyze CSS media queries
    */
   async analyzeMediaQueries(url: string, options: {
-    viewport?: 'mobile' | 'tablet' | 'desktop';
+    viewport?: ViewportPreset;
     expectations?: string;
   } = {}): Promise<any> {
     if (!this.isStarted) {
@@ -663,12 +1100,12 @@ export class UISentinel {
     const manager = this.browserEngine.getExtensionManager();
     manager.register(extension);
 
-    const page = await this.browserEngine.createPage(url, options.viewport as ViewportPreset || 'desktop');
+    const page = await this.browserEngine.createPage(url, options.viewport || 'desktop');
     await manager.injectExtension(page, 'media-query-inspector');
 
     const result = await manager.executeExtension(page, 'media-query-inspector', 'generateReport');
 
-    await page.close();
+    const runtime = await this.browserEngine.closePage(page);
 
     if (!result.success) {
       throw new Error(`Media query analysis failed: ${result.error}`);
@@ -676,6 +1113,7 @@ export class UISentinel {
 
     return {
       ...result.data,
+      runtime,
       expectations: options.expectations,
     };
   }
@@ -684,7 +1122,7 @@ export class UISentinel {
    * Visually inspect accessibility violations with overlays
    */
   async inspectA11y(url: string, options: {
-    viewport?: 'mobile' | 'tablet' | 'desktop';
+    viewport?: ViewportPreset;
     showTooltips?: boolean;
     enableHover?: boolean;
     expectations?: string;
@@ -699,10 +1137,10 @@ export class UISentinel {
     const manager = this.browserEngine.getExtensionManager();
     manager.register(extension);
 
-    const page = await this.browserEngine.createPage(url, options.viewport as ViewportPreset || 'desktop');
+    const page = await this.browserEngine.createPage(url, options.viewport || 'desktop');
 
     // First run accessibility checks to get violations
-    const violations = await this.browserEngine.runAccessibilityChecks(page);
+    const violations = await this.browserEngine.runAccessibilityChecks(page, this.getAccessibilityOptions());
 
     await manager.injectExtension(page, 'a11y-inspector');
 
@@ -725,7 +1163,7 @@ export class UISentinel {
     );
     await page.screenshot({ path: screenshotPath, fullPage: true });
 
-    await page.close();
+    const runtime = await this.browserEngine.closePage(page);
 
     if (!result.success) {
       throw new Error(`A11y inspection failed: ${result.error}`);
@@ -735,6 +1173,7 @@ export class UISentinel {
       ...result.data,
       violations,
       screenshot: screenshotPath,
+      runtime,
       expectations: options.expectations,
     };
   }
@@ -748,7 +1187,7 @@ export class UISentinel {
     value?: string;
     duration?: number;
   }>, options: {
-    viewport?: 'mobile' | 'tablet' | 'desktop';
+    viewport?: ViewportPreset;
     captureIntermediate?: boolean;
     captureViewport?: boolean;
     expectations?: string;
@@ -764,7 +1203,7 @@ export class UISentinel {
     const manager = this.browserEngine.getExtensionManager();
     manager.register(extension);
 
-    const page = await this.browserEngine.createPage(url, options.viewport as ViewportPreset || 'desktop');
+    const page = await this.browserEngine.createPage(url, options.viewport || 'desktop');
     await manager.injectExtension(page, 'element-inspector');
 
     const result = await extension.inspectWithActionSequence(page, selector, actions, {
@@ -772,14 +1211,44 @@ export class UISentinel {
       captureViewport: options.captureViewport ?? false,
     });
 
-    await page.close();
+    const runtime = await this.browserEngine.closePage(page);
 
     return {
       ...result,
+      runtime,
       expectations: options.expectations,
     };
   }
 
+  /**
+   * Open a headed browser so a human can log in, then save the session for headless runs
+   * Point config.auth.storageState at the saved file to reuse it
+   * @param waitForLogin - Resolves once the user is done logging in
+   * @returns Path of the saved storage state
+   */
+  async recordAuth(url: string, outputPath: string, waitForLogin: (page: Page) => Promise<void>): Promise<string> {
+    return this.browserEngine.recordStorageState(url, outputPath, waitForLogin, this.config.browsers[0]);
+  }
+
+  /**
+   * Open a headed browser and record what a human does there as a list of actions
+   * Relative URLs are resolved against config.host; save the actions as a scenario to replay them
+   * @param waitForDone - Resolves once the user is done recording
+   * @returns Recorded actions, ready for InteractionEngine.executeSequence
+   */
+  async recordInteractions(
+    url: string,
+    waitForDone: (page: Page) => Promise<void>,
+    options: { viewport?: ViewportPreset | Viewport; onAction?: (action: Action) => void } = {}
+  ): Promise<Action[]> {
+    return this.browserEngine.recordInteractions(
+      new URL(url, this.config.host).href,
+      waitForDone,
+      options,
+      this.config.browsers[0]
+    );
+  }
+
   /**
    * Stop server and close browser
    */
@@ -794,22 +1263,270 @@ export class UISentinel {
   }
 
 
+  /**
+   * Compare a route capture with its saved baseline, if there is one
+   */
+  private async compareWithBaseline(result: ValidationResult): Promise<void> {
+    const screenshot = result.screenshots[0];
+    if (!screenshot || !result.route || !result.viewport) {
+      return;
+    }
+
+    const name = this.visualDiff.getBaselineName(result.route, result.viewport, result.browser, result.theme);
+    this.visualDiff.saveCurrent(screenshot.path, name, result.layout);
+
+    if (!this.visualDiff.hasBaseline(name)) {
+      return;
+    }
+
+    // Regions masked when the baseline was saved stay masked, even if they have since moved
+    const baselineMasks = this.visualDiff.getBaselineMetadata(name)?.masks || [];
+    result.visualDiff = await this.visualDiff.compare(
+      this.visualDiff.getBaselinePath(name),
+      screenshot.path,
+      { ...this.config.visualDiff, masks: [...baselineMasks, ...(screenshot.masks || [])] }
+    );
+
+    // Explain the pixel diff in terms of elements that changed
+    const baselineLayout = this.visualDiff.getBaselineLayout(name);
+    if (baselineLayout && result.layout) {
+      const layoutDiff = new LayoutDiff(this.config.visualDiff.layoutTolerance);
+      result.visualDiff.structural = layoutDiff.compare(baselineLayout, result.layout);
+    }
+
+    if (!result.visualDiff.passed) {
+      result.status = 'error';
+      result.errors.push(
+        `Visual diff ${result.visualDiff.diffPercentage}% exceeds threshold ${result.visualDiff.threshold}% (baseline: ${name})`
+      );
+      result.suggestions.push(...(result.visualDiff.structural?.summary.slice(0, 10) || []));
+    }
+  }
+
+  /**
+   * Accessibility options from config, optionally with a different standard
+   */
+  private getAccessibilityOptions(standard?: AccessibilityStandard): AccessibilityOptions {
+    return {
+      standard: standard || this.config.accessibility.standard,
+      ignore: this.config.accessibility.ignore,
+    };
+  }
+
+  /**
+   * Human-readable name of a standard, e.g. WCAG22AA → 'WCAG 2.2 AA'
+   */
+  private describeStandard(standard: AccessibilityStandard): string {
+    return standard.replace(/^WCAG2(\d)/, 'WCAG 2.$1 ');
+  }
+
+  /**
+   * Overflow and truncation in a translated layout that the reference layout does not have
+   * Scroll containers and the document itself are skipped; viewport overflow is reported separately
+   */
+  private findLocaleIssues(reference: LayoutAnalysis, current: LayoutAnalysis): LocaleIssue[] {
+    const issues: LocaleIssue[] = [];
+
+    current.overflows
+      .filter(o => !o.scrollable && o.element !== 'html' && o.element !== 'html > body')
+      .forEach((overflow) => {
+        const before = reference.overflows.find(o => o.element === overflow.element);
+        const grewX = overflow.overflowX > (before?.overflowX || 0) + 1;
+        const grewY = overflow.overflowY > (before?.overflowY || 0) + 1;
+        if (!grewX && !grewY) {
+          return;
+        }
+
+        const amount = grewX ? `${overflow.overflowX}px horizontally` : `${overflow.overflowY}px vertically`;
+        issues.push({
+          element: overflow.element,
+          type: overflow.truncated ? 'truncation' : 'overflow',
+          overflowX: overflow.overflowX,
+          overflowY: overflow.overflowY,
+          description: overflow.truncated
+            ? `${overflow.element} truncates its text (${amount} cut off)`
+            : `${overflow.element} text overflows by ${amount}`,
+        });
+      });
+
+    (current.viewportOverflows || [])
+      .filter(o => !(reference.viewportOverflows || []).some(r => r.element === o.element))
+      .forEach((overflow) => {
+        issues.push({
+          element: overflow.element,
+          type: 'viewport-overflow',
+          overflowX: overflow.overflow,
+          overflowY: 0,
+          description: `${overflow.element} is ${overflow.overflow}px wider than the viewport`,
+        });
+      });
+
+    return issues;
+  }
+
+  /**
+   * Every combination of the configured theme matrix
+   * Defaults to light and dark, each with and without forced colors
+   */
+  private getThemes(): MediaEmulation[] {
+    const { enabled, ...matrix } = this.config.themeMatrix;
+    const dimensions = Object.entries(matrix).filter(([, values]) => Array.isArray(values) && values.length > 0);
+    if (dimensions.length === 0) {
+      dimensions.push(['colorScheme', ['light', 'dark']], ['forcedColors', ['none', 'active']]);
+    }
+
+    return dimensions.reduce<MediaEmulation[]>(
+      (themes, [key, values]) => themes.flatMap(theme => (values as string[]).map(value => ({ ...theme, [key]: value }))),
+      [{}]
+    );
+  }
+
+  /**
+   * Resolve a route against the configured host
+   */
+  private resolveRouteUrl(route: string): string {
+    return new URL(route, this.config.host).toString();
+  }
+
+  private describeFailedAssertion(assertion: AssertionResult): string {
+    const where = assertion.viewport ? `, ${assertion.viewport}` : '';
+    return `Assertion failed (step ${assertion.step}${where}): ${assertion.description}: expected ${assertion.expected}, got ${assertion.actual}`;
+  }
+
+  /**
+   * Build a validation result with status and suggestions derived from the analysis
+   */
+  private buildValidationResult(url: string, timestamp: string, analysis: {
+    screenshots: ScreenshotResult[];
+    accessibility?: AccessibilityResult;
+    contrast?: ContrastResult;
+    mobileUX?: MobileUXResult;
+    layout?: LayoutAnalysis;
+    runtime?: RuntimeReport;
+    network?: NetworkSummary;
+    assertions?: AssertionResult[];
+  }): ValidationResult {
+    const { screenshots, accessibility, contrast, mobileUX, layout, runtime, network, assertions } = analysis;
+    const suggestions: string[] = [];
+    const errors: string[] = [];
+
+    const failedAssertions = assertions?.filter((assertion) => !assertion.passed) || [];
+    failedAssertions.forEach((assertion) => {
+      errors.push(this.describeFailedAssertion(assertion));
+    });
+
+    runtime?.pageErrors.forEach((pageError) => {
+      errors.push(`Uncaught exception: ${pageError.message}`);
+    });
+
+    runtime?.console.error.forEach((message) => {
+      suggestions.push(`Console error: ${message.text}${message.url ? ` (${message.url}:${message.line})` : ''}`);
+    });
+
+    runtime?.failedRequests.forEach((request) => {
+      suggestions.push(`Request failed: ${request.method} ${request.url} (${request.failure})`);
+    });
+
+    network?.httpErrors.forEach((request) => {
+      suggestions.push(`${request.url} returned ${request.status}${request.statusText ? ` ${request.statusText}` : ''}`);
+    });
+
+    network?.mixedContent.forEach((issue) => {
+      suggestions.push(`Mixed content${issue.blocked ? ' blocked' : ''}: ${issue.url} is loaded over http`);
+    });
+
+    network?.slow.slice(0, 5).forEach((request) => {
+      suggestions.push(`Slow ${request.resourceType}: ${request.url} took ${request.duration}ms`);
+    });
+
+    accessibility?.violations.forEach((violation) => {
+      suggestions.push(`[${violation.impact}] ${violation.help} (${violation.nodes.length} element${violation.nodes.length === 1 ? '' : 's'})`);
+    });
+
+    contrast?.issues.forEach((issue) => {
+      suggestions.push(`[${issue.severity}] ${issue.selector} has contrast ${issue.ratio}:1, needs ${issue.required}:1`);
+    });
+
+    mobileUX?.touchTargets.forEach((target) => {
+      suggestions.push(`[${target.severity}] Touch target ${target.selector} is ${target.width}×${target.height}px`);
+    });
+
+    layout?.overflows
+      .filter((overflow) => overflow.overflowX > 0)
+      .forEach((overflow) => {
+        suggestions.push(`${overflow.element} overflows horizontally by ${overflow.overflowX}px`);
+      });
+
+    layout?.invisibleText.forEach((text) => {
+      suggestions.push(`${text.element}: ${text.reason}`);
+    });
+
+    let status: ValidationResult['status'] = suggestions.length > 0 || errors.length > 0 ? 'warning' : 'success';
+    if ((errors.length > 0 && this.config.failOnPageError) || failedAssertions.length > 0) {
+      status = 'error';
+    }
+
+    return {
+      status,
+      url,
+      timestamp,
+      screenshots,
+      accessibility,
+      contrast,
+      mobileUX,
+      layout,
+      runtime,
+      network,
+      assertions,
+      suggestions,
+      errors,
+    };
+  }
+
   /**
    * Merge user config with defaults
    */
   private mergeConfig(config: UISentinelConfig): Required<UISentinelConfig> {
     return {
       projectPath: config.projectPath || process.cwd(),
+      project: config.project || {},
       framework: config.framework || 'auto',
       port: config.port || 3000,
+      server: {
+        ...config.server,
+        logFile: config.server?.logFile || path.join(config.output?.directory || './uisentinel-output', 'server.log'),
+      },
       host: config.host || 'http://localhost:3000',
       headless: config.headless ?? true,
-      viewports: config.viewports || ['mobile', 'desktop'] as ViewportPreset[],
+      browsers: config.browsers?.length ? config.browsers : ['chromium'],
+      viewports: config.viewports || ['mobile', 'desktop'],
+      viewportPresets: config.viewportPresets || {},
       accessibility: {
         enabled: config.accessibility?.enabled ?? true,
         standard: config.accessibility?.standard || 'WCAG21AA',
         ignore: config.accessibility?.ignore || [],
       },
+      contrast: {
+        enabled: config.contrast?.enabled ?? false,
+      },
+      mobileUX: {
+        enabled: config.mobileUX?.enabled ?? false,
+      },
+      network: {
+        enabled: config.network?.enabled ?? false,
+        har: config.network?.har ?? true,
+        slowThreshold: config.network?.slowThreshold ?? 1000,
+      },
+      auth: config.auth || {},
+      emulation: config.emulation || {},
+      themeMatrix: {
+        ...config.themeMatrix,
+        enabled: config.themeMatrix?.enabled ?? false,
+      },
+      locale: config.locale || {},
+      i18n: {
+        locales: config.i18n?.locales?.length ? config.i18n.locales : ['en-US', 'de-DE', 'ar'],
+      },
       screenshot: {
         enabled: config.screenshot?.enabled ?? true,
         fullPage: config.screenshot?.fullPage ?? true,
@@ -821,13 +1538,24 @@ export class UISentinel {
         format: config.output?.format || 'json',
       },
       timeout: config.timeout || 30000,
+      failOnPageError: config.failOnPageError ?? false,
       routes: config.routes || ['/'],
+      visualDiff: {
+        ...config.visualDiff,
+        threshold: config.visualDiff?.threshold ?? 0.1,
+        dimensionPolicy: config.visualDiff?.dimensionPolicy || 'pad',
+      },
     };
   }
 }
 
 // Export for use
 export * from './types';
+export { ViewportResolver } from './viewport-resolver';
+export { CaptureError } from './browser-engine';
+export { ScenarioLoader } from './scenario-loader';
+export { InteractionRecorder, RecorderOptions } from './interaction-recorder';
+export { SCENARIO_SCHEMA } from './scenario-schema';
 export { ExtensionManager, BrowserExtension, BaseExtension } from './extensions/extension-manager';
 export { ElementInspector } from './extensions/element-inspector';
 export { A11yInspector } from './extensions/a11y-inspector';
@@ -840,6 +1568,7 @@ export { BreakpointVisualizer } from './extensions/breakpoint-visualizer';
 export { MediaQueryInspector } from './extensions/media-query-inspector';
 export { ResponsiveDesignInspector } from './extensions/responsive-design-inspector';
 export { MobileUXAnalyzer } from './extensions/mobile-ux-analyzer';
+export { RTLInspector } from './extensions/rtl-inspector';
 // AI Agent screenshot extensions
 export { FullPageScreenshotExtension } from './extensions/fullpage-screenshot';
 export { ViewportScreenshotExtension } from './extensions/viewport-screenshot';
@@ -1,3 +1,5 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import { Page } from 'playwright';
 import {
   Action,
@@ -9,14 +11,50 @@ import {
   ActionWait,
   ActionPress,
   ActionSelect,
+  ActionDrag,
+  ActionUpload,
+  ActionGoto,
+  ActionSetViewport,
+  ActionScreenshot,
+  ActionWaitForNavigation,
+  ActionWaitForResponse,
+  ActionAssert,
+  AssertionResult,
+  NumberConstraint,
+  Viewport,
 } from './types';
+import { ViewportResolver } from './viewport-resolver';
+
+export interface InteractionOptions {
+  outputDir?: string;                   // Where screenshot actions save (default: ./uisentinel-output)
+  viewportResolver?: ViewportResolver;  // Resolves setViewport presets and device names
+}
+
+export interface StepScreenshot {
+  name: string;
+  path: string;
+  width: number;
+  height: number;
+  viewport?: string;  // Viewport name, once a setViewport action has run
+}
 
 /**
  * Handles execution of interactive browser actions
  * Used by AI agents to test dynamic UI states
  */
 export class InteractionEngine {
-  constructor(private page: Page) {}
+  private outputDir: string;
+  private viewportResolver: ViewportResolver;
+  private screenshots: StepScreenshot[] = [];
+  private assertions: AssertionResult[] = [];
+  private step = 0;
+  private viewport: Viewport | undefined;
+  private armedWait: { action: Action; promise: Promise<unknown> } | null = null;
+
+  constructor(private page: Page, options: InteractionOptions = {}) {
+    this.outputDir = options.outputDir || './uisentinel-output';
+    this.viewportResolver = options.viewportResolver || new ViewportResolver();
+  }
 
   /**
    * Execute a single action
@@ -50,6 +88,45 @@ export class InteractionEngine {
         case 'select':
           await this.executeSelect(action);
           break;
+        case 'drag':
+          await this.executeDrag(action);
+          break;
+        case 'upload':
+          await this.executeUpload(action);
+          break;
+        case 'check':
+          await this.page.check(action.selector);
+          break;
+        case 'uncheck':
+          await this.page.uncheck(action.selector);
+          break;
+        case 'focus':
+          await this.page.focus(action.selector);
+          break;
+        case 'blur':
+          await this.page.locator(action.selector).blur();
+          break;
+        case 'goto':
+          await this.executeGoto(action);
+          break;
+        case 'setViewport':
+          await this.executeSetViewport(action);
+          break;
+        case 'evaluate':
+          await this.page.evaluate(action.script);
+          break;
+        case 'screenshot':
+          await this.executeScreenshot(action);
+          break;
+        case 'waitForNavigation':
+          await (this.takeArmedWait(action) || this.waitForNavigation(action, false));
+          break;
+        case 'waitForResponse':
+          await (this.takeArmedWait(action) || this.waitForResponse(action));
+          break;
+        case 'assert':
+          await this.executeAssert(action);
+          break;
         default:
           throw new Error(`Unknown action type: ${(action as any).type}`);
       }
@@ -67,6 +144,8 @@ export class InteractionEngine {
     console.log(`🎭 Executing ${actions.length} action(s)...`);
 
     for (let i = 0; i < actions.length; i++) {
+      this.armWait(actions[i + 1]);
+      this.step = i + 1;
       try {
         await this.executeAction(actions[i]);
       } catch (error: any) {
@@ -76,7 +155,32 @@ export class InteractionEngine {
       }
     }
 
-    console.log(`✅ All actions completed`);
+    const failed = this.assertions.filter(assertion => !assertion.passed).length;
+    console.log(failed > 0
+      ? `⚠️  All actions completed, ${failed} assertion(s) failed`
+      : `✅ All actions completed`);
+  }
+
+  /**
+   * Results of assert actions so far
+   * Failed assertions are recorded here instead of stopping the sequence
+   */
+  getAssertions(): AssertionResult[] {
+    return [...this.assertions];
+  }
+
+  /**
+   * Viewport applied by the last setViewport action, if any
+   */
+  getViewport(): Viewport | undefined {
+    return this.viewport;
+  }
+
+  /**
+   * Screenshots taken by screenshot actions so far
+   */
+  getScreenshots(): StepScreenshot[] {
+    return [...this.screenshots];
   }
 
   // Private implementation methods
@@ -138,6 +242,246 @@ export class InteractionEngine {
     await this.page.selectOption(action.selector, action.value);
   }
 
+  private async executeDrag(action: ActionDrag): Promise<void> {
+    await this.page.dragAndDrop(action.selector, action.target);
+  }
+
+  private async executeUpload(action: ActionUpload): Promise<void> {
+    const files = (Array.isArray(action.files) ? action.files : [action.files]).map(file => path.resolve(file));
+    const missing = files.find(file => !fs.existsSync(file));
+    if (missing) {
+      throw new Error(`File not found: ${missing}`);
+    }
+    await this.page.setInputFiles(action.selector, files);
+  }
+
+  private async executeGoto(action: ActionGoto): Promise<void> {
+    await this.page.goto(new URL(action.url, this.page.url()).href, {
+      waitUntil: action.waitUntil || 'load',
+    });
+  }
+
+  private async executeSetViewport(action: ActionSetViewport): Promise<void> {
+    const viewport = this.viewportResolver.resolve(action.viewport);
+    await this.page.setViewportSize({ width: viewport.width, height: viewport.height });
+    this.viewport = viewport;
+  }
+
+  private async executeScreenshot(action: ActionScreenshot): Promise<void> {
+    const name = action.name || `step-${this.screenshots.length + 1}`;
+    const size = this.page.viewportSize() || { width: 0, height: 0 };
+    const fileName = `${name.replace(/[^a-zA-Z0-9_-]+/g, '-')}_${size.width}x${size.height}_${Date.now()}.png`;
+    const screenshotPath = path.join(this.outputDir, 'screenshots', fileName);
+    fs.mkdirSync(path.dirname(screenshotPath), { recursive: true });
+
+    if (action.selector) {
+      await this.page.locator(action.selector).screenshot({ path: screenshotPath });
+    } else {
+      await this.page.screenshot({ path: screenshotPath, fullPage: action.fullPage ?? false });
+    }
+
+    this.screenshots.push({
+      name,
+      path: screenshotPath,
+      ...size,
+      ...(this.viewport ? { viewport: this.viewportResolver.getName(this.viewport) } : {}),
+    });
+  }
+
+  private async executeAssert(action: ActionAssert): Promise<void> {
+    const deadline = Date.now() + (action.timeout ?? 5000);
+    let outcome = await this.checkAssertion(action);
+    while (!outcome.passed && Date.now() < deadline) {
+      await this.page.waitForTimeout(100);
+      outcome = await this.checkAssertion(action);
+    }
+
+    this.assertions.push({ step: this.step, description: this.describeAction(action), ...outcome });
+    if (!outcome.passed) {
+      console.log(`  ❌ expected ${outcome.expected}, got ${outcome.actual}`);
+    }
+  }
+
+  /**
+   * Check an assertion once, without waiting for elements
+   */
+  private async checkAssertion(action: ActionAssert): Promise<{ passed: boolean; expected: string; actual: string }> {
+    if (action.assert === 'url') {
+      const url = this.page.url();
+      const regex = action.matches.match(/^\/(.+)\/([a-z]*)$/);
+      const passed = regex ? new RegExp(regex[1], regex[2]).test(url) : url.includes(action.matches);
+      return { passed, expected: this.describeExpectation(action), actual: url };
+    }
+
+    const locator = this.page.locator(action.selector);
+    const count = await locator.count();
+
+    if (action.assert === 'count') {
+      const constraint = action.equals ?? { min: action.min, max: action.max };
+      return { passed: this.meets(count, constraint), expected: this.describeConstraint(constraint), actual: String(count) };
+    }
+
+    const element = locator.first();
+    const visible = count > 0 && await element.isVisible();
+
+    switch (action.assert) {
+      case 'visible':
+        return { passed: visible, expected: 'visible', actual: count > 0 ? (visible ? 'visible' : 'hidden') : 'not found' };
+      case 'hidden':
+        return { passed: !visible, expected: 'hidden', actual: count > 0 ? (visible ? 'visible' : 'hidden') : 'not found' };
+    }
+
+    if (count === 0) {
+      return { passed: false, expected: this.describeExpectation(action), actual: 'not found' };
+    }
+
+    switch (action.assert) {
+      case 'text': {
+        const text = (await element.innerText()).replace(/\s+/g, ' ').trim();
+        return { passed: this.matchesText(text, action), expected: this.describeExpectation(action), actual: `"${text}"` };
+      }
+      case 'attribute': {
+        const value = await element.getAttribute(action.name);
+        const passed = value !== null && this.matchesText(value, action);
+        return { passed, expected: this.describeExpectation(action), actual: value === null ? 'no attribute' : `"${value}"` };
+      }
+      case 'css': {
+        const value = await element.evaluate(
+          (el, property) => getComputedStyle(el).getPropertyValue(property).trim(),
+          action.property
+        );
+        return { passed: this.matchesText(value, action), expected: this.describeExpectation(action), actual: `"${value}"` };
+      }
+      case 'box': {
+        const box = await element.boundingBox();
+        if (!box) {
+          return { passed: false, expected: this.describeExpectation(action), actual: 'not rendered' };
+        }
+        const checks = (['width', 'height', 'x', 'y'] as const).filter(key => action[key] !== undefined);
+        const passed = checks.every(key => this.meets(box[key], action[key]!));
+        const actual = checks.map(key => `${key} ${Math.round(box[key] * 100) / 100}`).join(', ');
+        return { passed, expected: this.describeExpectation(action), actual };
+      }
+    }
+  }
+
+  private matchesText(value: string, expectation: { equals?: string; contains?: string }): boolean {
+    if (expectation.equals !== undefined && value !== expectation.equals) {
+      return false;
+    }
+    return expectation.contains === undefined || value.includes(expectation.contains);
+  }
+
+  private meets(value: number, constraint: NumberConstraint): boolean {
+    if (typeof constraint === 'number') {
+      return value === constraint;
+    }
+    return (constraint.min === undefined || value >= constraint.min)
+      && (constraint.max === undefined || value <= constraint.max);
+  }
+
+  private describeConstraint(constraint: NumberConstraint): string {
+    if (typeof constraint === 'number') {
+      return `${constraint}`;
+    }
+    const parts = [
+      constraint.min !== undefined ? `≥ ${constraint.min}` : '',
+      constraint.max !== undefined ? `≤ ${constraint.max}` : '',
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' and ') : 'any';
+  }
+
+  private describeExpectation(action: ActionAssert): string {
+    switch (action.assert) {
+      case 'visible':
+      case 'hidden':
+        return action.assert;
+      case 'text':
+      case 'attribute':
+      case 'css': {
+        const parts = [
+          action.equals !== undefined ? `= "${action.equals}"` : '',
+          action.contains !== undefined ? `contains "${action.contains}"` : '',
+        ].filter(Boolean);
+        return parts.length > 0 ? parts.join(' and ') : 'present';
+      }
+      case 'count':
+        return this.describeConstraint(action.equals ?? { min: action.min, max: action.max });
+      case 'url':
+        return `matches ${action.matches}`;
+      case 'box':
+        return (['width', 'height', 'x', 'y'] as const)
+          .filter(key => action[key] !== undefined)
+          .map(key => `${key} ${typeof action[key] === 'number' ? '= ' : ''}${this.describeConstraint(action[key]!)}`)
+          .join(', ');
+    }
+  }
+
+  private waitForNavigation(action: ActionWaitForNavigation, armed: boolean): Promise<unknown> {
+    const timeout = action.timeout || 30000;
+    if (action.url) {
+      // Resolves at once if the page is already there
+      return this.page.waitForURL(url => url.href.includes(action.url!), { timeout });
+    }
+    if (!armed) {
+      return this.page.waitForLoadState('load', { timeout });
+    }
+    return this.page
+      .waitForEvent('framenavigated', { predicate: frame => frame === this.page.mainFrame(), timeout })
+      .then(() => this.page.waitForLoadState('load', { timeout }));
+  }
+
+  private waitForResponse(action: ActionWaitForResponse): Promise<unknown> {
+    return this.page.waitForResponse(
+      response => response.url().includes(action.url) && (action.status === undefined || response.status() === action.status),
+      { timeout: action.timeout || 30000 }
+    );
+  }
+
+  /**
+   * Start listening for a wait before the action that triggers it runs,
+   * so a navigation or response that completes quickly is not missed
+   */
+  private armWait(next?: Action): void {
+    if (next?.type === 'waitForNavigation' || next?.type === 'waitForResponse') {
+      const promise = next.type === 'waitForNavigation'
+        ? this.waitForNavigation(next, true)
+        : this.waitForResponse(next);
+      // Rejections surface when the wait action runs; until then they must not go unhandled
+      promise.catch(() => undefined);
+      this.armedWait = { action: next, promise };
+    }
+  }
+
+  private takeArmedWait(action: Action): Promise<unknown> | null {
+    const armed = this.armedWait?.action === action ? this.armedWait.promise : null;
+    this.armedWait = null;
+    return armed;
+  }
+
+  /**
+   * e.g. 'text of #title contains "Welcome"', 'box of .icon width ≥ 44'
+   */
+  private describeAssertion(action: ActionAssert): string {
+    switch (action.assert) {
+      case 'visible':
+      case 'hidden':
+        return `${action.selector} is ${action.assert}`;
+      case 'text':
+        return `text of ${action.selector} ${this.describeExpectation(action)}`;
+      case 'attribute':
+        return `[${action.name}] of ${action.selector} ${this.describeExpectation(action)}`;
+      case 'css':
+        return `${action.property} of ${action.selector} ${this.describeExpectation(action)}`;
+      case 'count':
+        return `count of ${action.selector} ${typeof action.equals === 'number' ? '= ' : ''}${this.describeExpectation(action)}`;
+      case 'url':
+        return `URL ${this.describeExpectation(action)}`;
+      case 'box':
+        return `box of ${action.selector} ${this.describeExpectation(action)}`;
+    }
+  }
+
   /**
    * Get human-readable description of action for logging
    */
@@ -161,6 +505,31 @@ export class InteractionEngine {
         return action.key;
       case 'select':
         return `${action.selector} = "${action.value}"`;
+      case 'drag':
+        return `${action.selector} → ${action.target}`;
+      case 'upload':
+        return `${action.selector} << ${(Array.isArray(action.files) ? action.files : [action.files]).join(', ') || '(clear)'}`;
+      case 'check':
+      case 'uncheck':
+      case 'focus':
+      case 'blur':
+        return action.selector;
+      case 'goto':
+        return action.url;
+      case 'setViewport':
+        return typeof action.viewport === 'string'
+          ? action.viewport
+          : `${action.viewport.width}x${action.viewport.height}`;
+      case 'evaluate':
+        return action.script.length > 60 ? `${action.script.slice(0, 57)}...` : action.script;
+      case 'screenshot':
+        return `${action.name || `step-${this.screenshots.length + 1}`}${action.selector ? ` (${action.selector})` : ''}`;
+      case 'waitForNavigation':
+        return action.url ? `to ${action.url}` : 'next load';
+      case 'waitForResponse':
+        return `${action.url}${action.status ? ` (${action.status})` : ''}`;
+      case 'assert':
+        return this.describeAssertion(action);
       default:
         return '';
     }
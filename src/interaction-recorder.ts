@@ -0,0 +1,357 @@
+import { Page } from 'playwright';
+import { Action } from './types';
+
+export interface RecorderOptions {
+  onAction?: (action: Action) => void;  // Called for each new step; typing into the same field updates the last one
+}
+
+// Name of the page binding the injected listeners report through
+const BINDING = '__uisentinelRecord';
+
+// A navigation this soon after a recorded step is treated as caused by it
+const NAVIGATION_WINDOW = 2000;
+
+/**
+ * Records what a person does in a browser page as uisentinel actions
+ * Like Playwright codegen, but the result is an Action[] ready for InteractionEngine.executeSequence
+ *
+ * Selectors prefer test ids (data-testid, data-test, data-cy), then role and accessible name,
+ * then visible text, then ids and form field names, and only then a CSS path
+ */
+export class InteractionRecorder {
+  private actions: Action[] = [];
+  private lastStepAt = 0;
+  private currentUrl = '';
+
+  constructor(private page: Page, private options: RecorderOptions = {}) {}
+
+  /**
+   * Start listening; call before the page is opened so the first document is recorded too
+   */
+  async start(): Promise<void> {
+    await this.page.exposeBinding(BINDING, (source, action: Action) => {
+      // Selectors are only meaningful in the main document
+      if (source.frame === this.page.mainFrame()) {
+        this.record(action);
+      }
+    });
+    await this.page.addInitScript(installRecorder, BINDING);
+
+    this.page.on('framenavigated', (frame) => {
+      if (frame === this.page.mainFrame()) {
+        this.recordNavigation(frame.url());
+      }
+    });
+  }
+
+  /**
+   * Steps recorded so far
+   */
+  getActions(): Action[] {
+    return [...this.actions];
+  }
+
+  private record(action: Action): void {
+    const last = this.actions[this.actions.length - 1];
+    this.lastStepAt = Date.now();
+
+    // Typing updates the field's fill, scrolling the window updates the last scroll,
+    // and the clicks of a double click become one click with clickCount 2
+    const merges =
+      (action.type === 'fill' && last?.type === 'fill' && last.selector === action.selector) ||
+      (action.type === 'scroll' && last?.type === 'scroll' && !last.selector && !action.selector) ||
+      (action.type === 'click' && (action.clickCount || 1) > 1 && last?.type === 'click' && last.selector === action.selector);
+    if (merges) {
+      this.actions[this.actions.length - 1] = action;
+      return;
+    }
+
+    this.actions.push(action);
+    this.options.onAction?.(action);
+  }
+
+  /**
+   * Navigations right after a step wait for the new page; others (typed into the address bar) become a goto
+   */
+  private recordNavigation(url: string): void {
+    const previous = this.currentUrl;
+    this.currentUrl = url;
+    if (!previous || previous === 'about:blank' || url === previous || url === 'about:blank') {
+      return;
+    }
+
+    const parsed = new URL(url);
+    const sameOrigin = parsed.origin === new URL(previous).origin;
+    const last = this.actions[this.actions.length - 1];
+
+    if (Date.now() - this.lastStepAt > NAVIGATION_WINDOW) {
+      this.record({ type: 'goto', url: sameOrigin ? parsed.pathname + parsed.search + parsed.hash : url });
+    } else if (last?.type === 'waitForNavigation') {
+      // Redirects after the first navigation only change where it ends up
+      last.url = sameOrigin ? parsed.pathname : url;
+    } else if (last) {
+      this.record({ type: 'waitForNavigation', url: sameOrigin ? parsed.pathname : url });
+    }
+  }
+}
+
+/**
+ * Runs in every document of the recorded page and reports steps through the binding
+ * Self-contained: Playwright serializes it into the page
+ */
+function installRecorder(binding: string): void {
+  const global = window as any;
+  if (global.__uisentinelRecorder) {
+    return;
+  }
+  global.__uisentinelRecorder = true;
+
+  const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-cy'];
+  const INTERACTIVE = [
+    'button', 'a[href]', 'input', 'select', 'textarea', 'label', 'summary', '[onclick]', '[contenteditable=""]', '[contenteditable="true"]',
+    ...['button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'option', 'treeitem', 'combobox'].map(role => `[role="${role}"]`),
+    ...TEST_ID_ATTRIBUTES.map(attribute => `[${attribute}]`),
+  ].join(', ');
+  // Sliders and pickers are dragged or chosen, not typed, so they are recorded by their final value
+  const SET_BY_VALUE = ['range', 'color'];
+  const NOT_TYPED = ['checkbox', 'radio', 'file', 'button', 'submit', 'reset', 'image', 'hidden', ...SET_BY_VALUE];
+
+  const send = (action: Record<string, unknown>) => global[binding]?.(action);
+  const normalize = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+  const quote = (value: string) => JSON.stringify(value);
+  const isUnique = (selector: string) => {
+    try {
+      return document.querySelectorAll(selector).length === 1;
+    } catch {
+      return false;
+    }
+  };
+
+  const isTextField = (element: Element) =>
+    element instanceof HTMLTextAreaElement ||
+    (element instanceof HTMLInputElement && !NOT_TYPED.includes(element.type)) ||
+    (element instanceof HTMLElement && element.isContentEditable);
+
+  // Roles Playwright's role selector computes the same way for these elements
+  const roleOf = (element: Element): string | null => {
+    const explicit = element.getAttribute('role');
+    if (explicit) {
+      return explicit.trim().split(/\s+/)[0];
+    }
+    const tag = element.tagName.toLowerCase();
+    if (tag === 'button') return 'button';
+    if (tag === 'a' && element.hasAttribute('href')) return 'link';
+    if (tag === 'textarea') return 'textbox';
+    if (element instanceof HTMLSelectElement) {
+      return element.multiple || element.size > 1 ? 'listbox' : 'combobox';
+    }
+    if (element instanceof HTMLInputElement) {
+      const type = element.type;
+      if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+      if (type === 'checkbox' || type === 'radio') return type;
+      if (type === 'search') return element.hasAttribute('list') ? 'combobox' : 'searchbox';
+      if (['text', 'email', 'tel', 'url'].includes(type)) return element.hasAttribute('list') ? 'combobox' : 'textbox';
+    }
+    return null;
+  };
+
+  const nameOf = (element: Element): string => {
+    const label = element.getAttribute('aria-label');
+    if (label && label.trim()) {
+      return normalize(label);
+    }
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      return normalize(labelledBy.split(/\s+/).map(id => document.getElementById(id)?.textContent).join(' '));
+    }
+    if (element instanceof HTMLInputElement && ['button', 'submit', 'reset'].includes(element.type)) {
+      return normalize(element.value || (element.type === 'submit' ? 'Submit' : element.type === 'reset' ? 'Reset' : ''));
+    }
+    if (element instanceof HTMLInputElement && element.type === 'image') {
+      return normalize(element.alt);
+    }
+    if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement) {
+      const labels = Array.from(element.labels || []);
+      return normalize(labels.map(label => label.textContent).join(' ') || element.title);
+    }
+    const text = normalize((element as HTMLElement).innerText);
+    return text || normalize(element.querySelector('img[alt]')?.getAttribute('alt'));
+  };
+
+  const testIdSelector = (element: Element): string | null => {
+    for (const attribute of TEST_ID_ATTRIBUTES) {
+      const value = element.getAttribute(attribute);
+      if (value) {
+        const selector = `[${attribute}=${quote(value)}]`;
+        if (isUnique(selector)) {
+          return selector;
+        }
+      }
+    }
+    return null;
+  };
+
+  const roleSelector = (element: Element): string | null => {
+    const role = roleOf(element);
+    const name = role ? nameOf(element) : '';
+    if (!role || !name || name.length > 80) {
+      return null;
+    }
+    const matches = Array.from(document.querySelectorAll('*'))
+      .filter(other => roleOf(other) === role && nameOf(other) === name);
+    return matches.length === 1 ? `role=${role}[name=${quote(name)}s]` : null;
+  };
+
+  // Playwright's text="..." matches the innermost elements whose whole text is exactly this
+  const textSelector = (element: Element): string | null => {
+    const text = normalize((element as HTMLElement).innerText);
+    if (!text || text.length > 50) {
+      return null;
+    }
+    const matches = Array.from(document.body.querySelectorAll('*')).filter(other =>
+      normalize((other as HTMLElement).innerText) === text &&
+      !Array.from(other.children).some(child => normalize((child as HTMLElement).innerText) === text)
+    );
+    return matches.length === 1 && (matches[0] === element || element.contains(matches[0])) ? `text=${quote(text)}` : null;
+  };
+
+  const idSelector = (element: Element): string | null => {
+    // Generated ids (React's :r1:, ember123) change between builds
+    if (!element.id || !/^[a-zA-Z][\w-]*$/.test(element.id) || /\d{3,}/.test(element.id)) {
+      return null;
+    }
+    const selector = `#${CSS.escape(element.id)}`;
+    return isUnique(selector) ? selector : null;
+  };
+
+  const fieldSelector = (element: Element): string | null => {
+    const tag = element.tagName.toLowerCase();
+    for (const attribute of ['name', 'placeholder']) {
+      const value = element.getAttribute(attribute);
+      if (value && ['input', 'select', 'textarea'].includes(tag)) {
+        const selector = `${tag}[${attribute}=${quote(value)}]`;
+        if (isUnique(selector)) {
+          return selector;
+        }
+      }
+    }
+    return null;
+  };
+
+  const cssPath = (element: Element): string => {
+    const parts: string[] = [];
+    let node: Element | null = element;
+    while (node && node !== document.documentElement) {
+      const anchor = node === element ? null : testIdSelector(node) || idSelector(node);
+      if (anchor) {
+        parts.unshift(anchor);
+        break;
+      }
+      const tag = node.tagName.toLowerCase();
+      const siblings = node.parentElement
+        ? Array.from(node.parentElement.children).filter(sibling => sibling.tagName === node!.tagName)
+        : [];
+      parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(node) + 1})` : tag);
+      if (isUnique(parts.join(' > '))) {
+        break;
+      }
+      node = node.parentElement;
+    }
+    return parts.join(' > ');
+  };
+
+  const selectorFor = (element: Element): string =>
+    testIdSelector(element) ||
+    roleSelector(element) ||
+    (isTextField(element) || element instanceof HTMLSelectElement ? null : textSelector(element)) ||
+    idSelector(element) ||
+    fieldSelector(element) ||
+    cssPath(element);
+
+  const targetOf = (event: Event): Element | null => {
+    const target = event.composedPath()[0];
+    return target instanceof Element ? target.closest(INTERACTIVE) || target : null;
+  };
+
+  const isToggle = (element: Element) =>
+    element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio');
+
+  const isSetByValue = (element: Element) =>
+    element instanceof HTMLInputElement && SET_BY_VALUE.includes(element.type);
+
+  const onClick = (event: MouseEvent, button: 'left' | 'right') => {
+    const target = targetOf(event);
+    if (!event.isTrusted || !target) {
+      return;
+    }
+    // Fields are recorded by what is typed or chosen, toggles and sliders by their change event
+    const control = target instanceof HTMLLabelElement ? target.control : null;
+    if (isTextField(target) || target instanceof HTMLSelectElement || target instanceof HTMLOptionElement ||
+        isToggle(target) || (control && isToggle(control)) || isSetByValue(target) ||
+        (target instanceof HTMLInputElement && target.type === 'file')) {
+      return;
+    }
+    send({
+      type: 'click',
+      selector: selectorFor(target),
+      ...(button === 'right' ? { button } : {}),
+      ...(event.detail > 1 ? { clickCount: event.detail } : {}),
+    });
+  };
+
+  document.addEventListener('click', event => onClick(event, 'left'), true);
+  document.addEventListener('contextmenu', event => onClick(event, 'right'), true);
+
+  document.addEventListener('input', (event) => {
+    const target = event.composedPath()[0];
+    if (!event.isTrusted || !(target instanceof Element) || !isTextField(target)) {
+      return;
+    }
+    const value = target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement
+      ? target.value
+      : (target as HTMLElement).innerText;
+    send({ type: 'fill', selector: selectorFor(target), value });
+  }, true);
+
+  document.addEventListener('change', (event) => {
+    const target = event.composedPath()[0];
+    if (!event.isTrusted) {
+      return;
+    }
+    if (target instanceof HTMLSelectElement) {
+      send({ type: 'select', selector: selectorFor(target), value: target.value });
+    } else if (target instanceof HTMLInputElement && isToggle(target)) {
+      send({ type: target.checked ? 'check' : 'uncheck', selector: selectorFor(target) });
+    } else if (target instanceof HTMLInputElement && isSetByValue(target)) {
+      // The script looks the input up itself, so only CSS selectors will do
+      const selector = testIdSelector(target) || idSelector(target) || fieldSelector(target) || cssPath(target);
+      const script = `(el => { el.value = ${quote(target.value)}; ` +
+        `el.dispatchEvent(new Event('input', { bubbles: true })); ` +
+        `el.dispatchEvent(new Event('change', { bubbles: true })); })` +
+        `(document.querySelector(${quote(selector)}))`;
+      send({ type: 'evaluate', script });
+    }
+  }, true);
+
+  document.addEventListener('keydown', (event) => {
+    const target = event.composedPath()[0];
+    const typesNewline = target instanceof HTMLTextAreaElement || (target instanceof HTMLElement && target.isContentEditable);
+    if (!event.isTrusted || !['Enter', 'Escape', 'Tab'].includes(event.key) || (event.key === 'Enter' && typesNewline)) {
+      return;
+    }
+    send({ type: 'press', key: event.shiftKey && event.key === 'Tab' ? 'Shift+Tab' : event.key });
+  }, true);
+
+  // Window scrolls only, reported once scrolling settles
+  let scrollTimer: number | undefined;
+  window.addEventListener('scroll', (event) => {
+    if (!event.isTrusted || event.target !== document) {
+      return;
+    }
+    window.clearTimeout(scrollTimer);
+    scrollTimer = window.setTimeout(() => {
+      const x = Math.round(window.scrollX);
+      send({ type: 'scroll', ...(x ? { x } : {}), y: Math.round(window.scrollY) });
+    }, 300);
+  });
+}
@@ -0,0 +1,159 @@
+import { LayoutAnalysis, LayoutElement, LayoutChange, LayoutChangeType, StructuralDiff } from './types';
+
+/**
+ * Compares layout snapshots to explain what changed between a baseline and the current run
+ */
+export class LayoutDiff {
+  /**
+   * @param tolerance - Position and size changes up to this many pixels are ignored
+   */
+  constructor(private tolerance: number = 1) {}
+
+  /**
+   * Compare two layout snapshots keyed by element selector
+   */
+  compare(baseline: LayoutAnalysis, current: LayoutAnalysis): StructuralDiff {
+    const before = this.indexElements(baseline.elements);
+    const after = this.indexElements(current.elements);
+    const changes: LayoutChange[] = [];
+
+    before.forEach((el, selector) => {
+      const next = after.get(selector);
+
+      if (!next) {
+        // Only report the outermost element of a removed subtree
+        if (!el.parent || after.has(el.parent) || !before.has(el.parent)) {
+          changes.push(this.createChange('removed', el, undefined));
+        }
+        return;
+      }
+
+      const moved = this.getDelta(el, next, 'x', 'y');
+      if (moved && !this.sharesParentDelta(el, before, after, 'x', 'y', moved)) {
+        changes.push(this.createChange('moved', el, next));
+      }
+
+      const resized = this.getDelta(el, next, 'width', 'height');
+      if (resized && !this.sharesParentDelta(el, before, after, 'width', 'height', resized)) {
+        changes.push(this.createChange('resized', el, next));
+      }
+
+      if (el.zIndex !== next.zIndex) {
+        changes.push(this.createChange('zIndex', el, next));
+      }
+    });
+
+    after.forEach((el, selector) => {
+      // Only report the outermost element of an added subtree
+      if (!before.has(selector) && (!el.parent || before.has(el.parent) || !after.has(el.parent))) {
+        changes.push(this.createChange('added', undefined, el));
+      }
+    });
+
+    const order: LayoutChangeType[] = ['removed', 'added', 'moved', 'resized', 'zIndex'];
+    changes.sort((a, b) => order.indexOf(a.type) - order.indexOf(b.type));
+
+    const count = (type: LayoutChangeType) => changes.filter(c => c.type === type).length;
+    return {
+      changes,
+      moved: count('moved'),
+      resized: count('resized'),
+      added: count('added'),
+      removed: count('removed'),
+      zIndexChanged: count('zIndex'),
+      summary: changes.map(c => c.description),
+    };
+  }
+
+  private indexElements(elements: LayoutElement[]): Map<string, LayoutElement> {
+    const index = new Map<string, LayoutElement>();
+    elements.forEach((el) => {
+      if (!index.has(el.selector)) {
+        index.set(el.selector, el);
+      }
+    });
+    return index;
+  }
+
+  /**
+   * Change along two bounding box axes, or null when within tolerance
+   */
+  private getDelta(
+    before: LayoutElement,
+    after: LayoutElement,
+    a: 'x' | 'width',
+    b: 'y' | 'height'
+  ): [number, number] | null {
+    const da = Math.round(after.boundingBox[a] - before.boundingBox[a]);
+    const db = Math.round(after.boundingBox[b] - before.boundingBox[b]);
+    if (Math.abs(da) <= this.tolerance && Math.abs(db) <= this.tolerance) {
+      return null;
+    }
+    return [da, db];
+  }
+
+  /**
+   * Whether the parent changed by the same amount, in which case the child just followed it
+   */
+  private sharesParentDelta(
+    el: LayoutElement,
+    before: Map<string, LayoutElement>,
+    after: Map<string, LayoutElement>,
+    a: 'x' | 'width',
+    b: 'y' | 'height',
+    delta: [number, number]
+  ): boolean {
+    const parentBefore = el.parent ? before.get(el.parent) : undefined;
+    const parentAfter = el.parent ? after.get(el.parent) : undefined;
+    if (!parentBefore || !parentAfter) {
+      return false;
+    }
+
+    const parentDelta = this.getDelta(parentBefore, parentAfter, a, b);
+    return !!parentDelta &&
+      Math.abs(parentDelta[0] - delta[0]) <= this.tolerance &&
+      Math.abs(parentDelta[1] - delta[1]) <= this.tolerance;
+  }
+
+  private createChange(type: LayoutChangeType, baseline?: LayoutElement, current?: LayoutElement): LayoutChange {
+    const el = (current || baseline) as LayoutElement;
+    return {
+      type,
+      selector: el.selector,
+      baseline,
+      current,
+      description: `${el.selector} ${this.describeChange(type, baseline, current)}`,
+    };
+  }
+
+  private describeChange(type: LayoutChangeType, baseline?: LayoutElement, current?: LayoutElement): string {
+    switch (type) {
+      case 'removed':
+        return `disappeared (was ${this.describeBox(baseline)})`;
+      case 'added':
+        return `appeared ${this.describeBox(current)}`;
+      case 'moved': {
+        const dx = Math.round(current.boundingBox.x - baseline.boundingBox.x);
+        const dy = Math.round(current.boundingBox.y - baseline.boundingBox.y);
+        const parts: string[] = [];
+        if (Math.abs(dy) > this.tolerance) parts.push(`${Math.abs(dy)}px ${dy > 0 ? 'down' : 'up'}`);
+        if (Math.abs(dx) > this.tolerance) parts.push(`${Math.abs(dx)}px ${dx > 0 ? 'right' : 'left'}`);
+        return `moved ${parts.join(' and ')}`;
+      }
+      case 'resized':
+        return `resized from ${this.describeSize(baseline)} to ${this.describeSize(current)}`;
+      case 'zIndex':
+        return `z-index changed from ${baseline.zIndex} to ${current.zIndex}`;
+      default:
+        return '';
+    }
+  }
+
+  private describeBox(el: LayoutElement): string {
+    return `at (${Math.round(el.boundingBox.x)}, ${Math.round(el.boundingBox.y)}), ${this.describeSize(el)}`;
+  }
+
+  private describeSize(el: LayoutElement): string {
+    return `${Math.round(el.boundingBox.width)}×${Math.round(el.boundingBox.height)}`;
+  }
+}
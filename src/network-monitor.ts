@@ -0,0 +1,158 @@
+import { Page, Request, ConsoleMessage } from 'playwright';
+import { NetworkRequest, NetworkSummary, MixedContentIssue } from './types';
+
+/**
+ * Records network traffic while pages load and summarizes what went wrong
+ */
+export class NetworkMonitor {
+  private requests: NetworkRequest[] = [];
+  private mixedContent: MixedContentIssue[] = [];
+  private harPaths: string[] = [];
+  private pending: Set<Promise<void>> = new Set();
+  private detachers: Array<() => void> = [];
+
+  /**
+   * @param slowThreshold - Requests taking at least this many ms are reported as slow
+   */
+  constructor(private slowThreshold: number = 1000) {}
+
+  /**
+   * Start listening to a page. Attach before navigating to see every request.
+   */
+  attach(page: Page): void {
+    const onFinished = (request: Request) => this.track(this.recordFinished(page, request));
+    const onFailed = (request: Request) => {
+      const failure = request.failure()?.errorText || 'unknown error';
+      this.track(this.recordRequest(page, request, { failure }));
+    };
+    const onConsole = (message: ConsoleMessage) => this.recordBlockedMixedContent(message);
+
+    page.on('requestfinished', onFinished);
+    page.on('requestfailed', onFailed);
+    page.on('console', onConsole);
+
+    this.detachers.push(() => {
+      page.off('requestfinished', onFinished);
+      page.off('requestfailed', onFailed);
+      page.off('console', onConsole);
+    });
+  }
+
+  /**
+   * Stop listening to every attached page
+   */
+  detach(): void {
+    this.detachers.forEach(detach => detach());
+    this.detachers = [];
+  }
+
+  /**
+   * Remember a HAR file written for one of the monitored pages
+   */
+  addHar(harPath: string): void {
+    this.harPaths.push(harPath);
+  }
+
+  /**
+   * Wait for in-flight bookkeeping (responses and sizes) to finish
+   * Call before closing a monitored page: those lookups fail once it is closed
+   */
+  async settle(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
+    }
+  }
+
+  /**
+   * Summary of everything recorded so far, once in-flight bookkeeping has settled
+   */
+  async getSummary(): Promise<NetworkSummary> {
+    await this.settle();
+
+    return {
+      totalRequests: this.requests.length,
+      totalBytes: this.requests.reduce((total, request) => total + request.size, 0),
+      failed: this.requests.filter(r => r.failure),
+      httpErrors: this.requests.filter(r => r.status !== undefined && r.status >= 400),
+      slow: this.requests
+        .filter(r => !r.failure && r.duration >= this.slowThreshold)
+        .sort((a, b) => b.duration - a.duration),
+      mixedContent: [...this.mixedContent],
+      harPaths: [...this.harPaths],
+    };
+  }
+
+  private track(work: Promise<void>): void {
+    const tracked = work.catch(() => undefined).finally(() => this.pending.delete(tracked));
+    this.pending.add(tracked);
+  }
+
+  private async recordFinished(page: Page, request: Request): Promise<void> {
+    const response = await request.response();
+    await this.recordRequest(page, request, {
+      status: response?.status(),
+      statusText: response?.statusText(),
+    });
+  }
+
+  private async recordRequest(
+    page: Page,
+    request: Request,
+    outcome: { status?: number; statusText?: string; failure?: string }
+  ): Promise<void> {
+    let size = 0;
+    if (!outcome.failure) {
+      const sizes = await request.sizes().catch(() => undefined);
+      size = sizes ? sizes.responseHeadersSize + sizes.responseBodySize : 0;
+    }
+
+    const timing = request.timing();
+    const duration = timing.responseEnd >= 0 ? Math.round(timing.responseEnd) : -1;
+
+    this.requests.push({
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      ...outcome,
+      size,
+      duration,
+    });
+
+    if (this.isMixedContent(page.url(), request.url())) {
+      this.addMixedContent({
+        url: request.url(),
+        resourceType: request.resourceType(),
+        blocked: !!outcome.failure,
+      });
+    }
+  }
+
+  /**
+   * Browsers block active mixed content before a request is made, so it only shows up in the console
+   */
+  private recordBlockedMixedContent(message: ConsoleMessage): void {
+    const text = message.text();
+    if (!/mixed (active )?content/i.test(text) || !/block/i.test(text)) {
+      return;
+    }
+
+    const url = text.match(/["'“](http:\/\/[^"'”]+)["'”]/)?.[1];
+    if (url) {
+      this.addMixedContent({ url, blocked: true });
+    }
+  }
+
+  private addMixedContent(issue: MixedContentIssue): void {
+    const existing = this.mixedContent.find(m => m.url === issue.url);
+    if (!existing) {
+      this.mixedContent.push(issue);
+      return;
+    }
+    existing.blocked = existing.blocked || issue.blocked;
+    existing.resourceType = existing.resourceType || issue.resourceType;
+  }
+
+  private isMixedContent(pageUrl: string, requestUrl: string): boolean {
+    return pageUrl.startsWith('https:') && requestUrl.startsWith('http:');
+  }
+}
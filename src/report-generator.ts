@@ -0,0 +1,427 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { CIReporter } from './ci-reporter';
+import {
+  ValidationResult,
+  ReportFormat,
+  AccessibilityViolation,
+} from './types';
+
+const IMPACT_ORDER: AccessibilityViolation['impact'][] = ['critical', 'serious', 'moderate', 'minor'];
+
+/**
+ * Renders validation results as JSON, self-contained HTML, Markdown, JUnit XML or SARIF reports
+ */
+export class ReportGenerator {
+  private outputDir: string;
+
+  constructor(outputDir: string = './uisentinel-output') {
+    this.outputDir = path.resolve(outputDir);
+  }
+
+  /**
+   * Render results in the given format and write the report to the output directory
+   * @returns Path of the written report
+   */
+  async generate(
+    results: ValidationResult[],
+    format: ReportFormat = 'json',
+    options: { name?: string; title?: string } = {}
+  ): Promise<string> {
+    const name = options.name || `report-${Date.now()}`;
+    const title = options.title || 'UISentinel Report';
+    fs.mkdirSync(this.outputDir, { recursive: true });
+
+    let reportPath: string;
+    switch (format) {
+      case 'html':
+        reportPath = path.join(this.outputDir, `${name}.html`);
+        fs.writeFileSync(reportPath, await this.generateHTML(results, title));
+        break;
+      case 'markdown':
+        reportPath = path.join(this.outputDir, `${name}.md`);
+        fs.writeFileSync(reportPath, this.generateMarkdown(results, title));
+        break;
+      case 'json':
+        reportPath = path.join(this.outputDir, `${name}.json`);
+        fs.writeFileSync(reportPath, JSON.stringify(results, null, 2));
+        break;
+      case 'junit':
+        reportPath = path.join(this.outputDir, `${name}.xml`);
+        fs.writeFileSync(reportPath, new CIReporter().toJUnit(results));
+        break;
+      case 'sarif':
+        reportPath = path.join(this.outputDir, `${name}.sarif`);
+        fs.writeFileSync(reportPath, JSON.stringify(new CIReporter().toSARIF(results), null, 2));
+        break;
+      default:
+        throw new Error(`Unknown report format: ${format}`);
+    }
+
+    return reportPath;
+  }
+
+  /**
+   * Render results as a single HTML page with embedded thumbnails
+   */
+  async generateHTML(results: ValidationResult[], title: string = 'UISentinel Report'): Promise<string> {
+    const sections: string[] = [];
+
+    for (const result of results) {
+      sections.push(await this.renderResultHTML(result));
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${this.escape(title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; background: #f5f6f8; color: #1f2328; }
+  header { background: #1f2328; color: #fff; padding: 24px 32px; }
+  header h1 { margin: 0 0 8px; font-size: 24px; }
+  main { padding: 24px 32px; }
+  .summary span { margin-right: 16px; }
+  .result { background: #fff; border-radius: 8px; box-shadow: 0 1px 3px rgba(0,0,0,.12); margin-bottom: 24px; padding: 20px 24px; }
+  .result h2 { font-size: 18px; margin: 0 0 4px; }
+  .meta { color: #656d76; font-size: 13px; margin-bottom: 16px; }
+  .badge { border-radius: 12px; color: #fff; font-size: 12px; font-weight: 600; padding: 2px 10px; text-transform: uppercase; }
+  .success { background: #1a7f37; } .warning { background: #bf8700; } .error { background: #cf222e; }
+  .critical { color: #cf222e; } .serious { color: #d1242f; } .moderate { color: #bf8700; } .minor { color: #656d76; }
+  .images { display: flex; flex-wrap: wrap; gap: 16px; }
+  figure { margin: 0; max-height: 480px; overflow-y: auto; border: 1px solid #d0d7de; border-radius: 4px; }
+  figure img { display: block; width: 320px; }
+  figcaption { font-size: 12px; padding: 4px 8px; background: #f6f8fa; position: sticky; top: 0; }
+  table { border-collapse: collapse; font-size: 13px; margin: 8px 0; }
+  th, td { border-bottom: 1px solid #d0d7de; padding: 4px 12px 4px 0; text-align: left; }
+  code { background: #f6f8fa; border-radius: 4px; font-size: 12px; padding: 1px 4px; }
+  h3 { font-size: 15px; margin: 20px 0 8px; }
+  ul { margin: 4px 0; padding-left: 20px; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${this.escape(title)}</h1>
+  <div class="summary">${this.renderSummaryHTML(results)}</div>
+</header>
+<main>
+${sections.join('\n')}
+</main>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Render results as Markdown, linking to screenshots relative to the output directory
+   */
+  generateMarkdown(results: ValidationResult[], title: string = 'UISentinel Report'): string {
+    const lines: string[] = [];
+    const counts = this.countStatuses(results);
+
+    lines.push(`# ${title}`);
+    lines.push('');
+    lines.push(`- **Generated**: ${new Date().toISOString()}`);
+    lines.push(`- **Results**: ${results.length} (✅ ${counts.success} passed, ⚠️ ${counts.warning} warnings, ❌ ${counts.error} errors)`);
+    lines.push('');
+
+    results.forEach((result) => {
+      lines.push(`## ${this.statusIcon(result.status)} ${this.describeResult(result)}`);
+      lines.push('');
+      lines.push(`- **URL**: ${result.url}`);
+      lines.push(`- **Status**: ${result.status}`);
+      lines.push(`- **Timestamp**: ${result.timestamp}`);
+      lines.push('');
+
+      if (result.errors.length > 0) {
+        lines.push('### ❌ Errors');
+        lines.push('');
+        result.errors.forEach(error => lines.push(`- ${error}`));
+        lines.push('');
+      }
+
+      if (result.screenshots.length > 0) {
+        lines.push('### 📸 Screenshots');
+        lines.push('');
+        result.screenshots.forEach((screenshot) => {
+          const label = `${screenshot.step ? `${screenshot.step} - ` : ''}${screenshot.viewport}`;
+          lines.push(`![${label} (${screenshot.width}x${screenshot.height})](${this.relativePath(screenshot.path)})`);
+        });
+        lines.push('');
+      }
+
+      if (result.accessibility) {
+        lines.push(`### ♿ Accessibility: ${result.accessibility.score}/100 (${result.accessibility.wcagLevel})`);
+        lines.push('');
+        if (result.accessibility.violations.length === 0) {
+          lines.push('✅ No accessibility violations found.');
+          lines.push('');
+        }
+        this.groupByImpact(result.accessibility.violations).forEach(([impact, violations]) => {
+          lines.push(`#### ${impact} (${violations.length})`);
+          lines.push('');
+          violations.forEach((violation) => {
+            lines.push(`- **${violation.help}** (\`${violation.id}\`, ${violation.nodes.length} element${violation.nodes.length === 1 ? '' : 's'}) - [docs](${violation.helpUrl})`);
+            violation.nodes.slice(0, 5).forEach((node) => {
+              lines.push(`  - \`${node.target.join(' ')}\``);
+            });
+          });
+          lines.push('');
+        });
+      }
+
+      const overflows = this.getOverflows(result);
+      if (overflows.length > 0) {
+        lines.push('### 📐 Layout Overflows');
+        lines.push('');
+        lines.push('| Element | Overflow X | Overflow Y |');
+        lines.push('| --- | --- | --- |');
+        overflows.forEach((overflow) => {
+          lines.push(`| \`${overflow.element}\` | ${overflow.overflowX}px | ${overflow.overflowY}px |`);
+        });
+        lines.push('');
+      }
+
+      if (this.hasRuntimeIssues(result)) {
+        const { console: messages, pageErrors, failedRequests } = result.runtime;
+        lines.push('### 🐞 Runtime');
+        lines.push('');
+        pageErrors.forEach(e => lines.push(`- **Uncaught exception:** ${e.message}`));
+        messages.error.forEach(m => lines.push(`- **Console error:** ${m.text}`));
+        messages.warning.forEach(m => lines.push(`- Console warning: ${m.text}`));
+        failedRequests.forEach(r => lines.push(`- Request failed: \`${r.method} ${r.url}\` (${r.failure})`));
+        lines.push('');
+      }
+
+      if (result.i18n?.issues.length) {
+        lines.push(`### 🈯 i18n Layout (compared with ${result.i18n.reference})`);
+        lines.push('');
+        result.i18n.issues.forEach(issue => lines.push(`- ${issue.description}`));
+        lines.push('');
+      }
+
+      if (result.network) {
+        const network = result.network;
+        lines.push(`### 🌐 Network: ${network.totalRequests} requests, ${this.formatBytes(network.totalBytes)}`);
+        lines.push('');
+        network.httpErrors.forEach(r => lines.push(`- \`${r.url}\` returned ${r.status}`));
+        network.mixedContent.forEach(m => lines.push(`- Mixed content${m.blocked ? ' (blocked)' : ''}: \`${m.url}\``));
+        network.slow.forEach(r => lines.push(`- Slow ${r.resourceType}: \`${r.url}\` (${r.duration}ms)`));
+        network.harPaths.forEach(harPath => lines.push(`- HAR: [${path.basename(harPath)}](${this.relativePath(harPath)})`));
+        lines.push('');
+      }
+
+      if (result.visualDiff) {
+        const diff = result.visualDiff;
+        lines.push(`### 🔍 Visual Diff: ${diff.passed ? '✅ passed' : '❌ failed'}`);
+        lines.push('');
+        lines.push(`${diff.diffPercentage}% of pixels differ (threshold ${diff.threshold}%)`);
+        lines.push('');
+        if (diff.structural && diff.structural.summary.length > 0) {
+          diff.structural.summary.forEach(line => lines.push(`- ${line}`));
+          lines.push('');
+        }
+        if (diff.diffPath) {
+          lines.push(`![Diff](${this.relativePath(diff.diffPath)})`);
+          lines.push('');
+        }
+      }
+
+      if (result.suggestions.length > 0) {
+        lines.push('### 💡 Suggestions');
+        lines.push('');
+        result.suggestions.forEach(suggestion => lines.push(`- ${suggestion}`));
+        lines.push('');
+      }
+    });
+
+    return lines.join('\n');
+  }
+
+  private async renderResultHTML(result: ValidationResult): Promise<string> {
+    const parts: string[] = [];
+
+    parts.push(`<h2>${this.escape(this.describeResult(result))} <span class="badge ${result.status}">${result.status}</span></h2>`);
+    parts.push(`<div class="meta"><a href="${this.escape(result.url)}">${this.escape(result.url)}</a> · ${this.escape(result.timestamp)}</div>`);
+
+    if (result.errors.length > 0) {
+      parts.push('<h3>Errors</h3>');
+      parts.push(`<ul>${result.errors.map(e => `<li class="critical">${this.escape(e)}</li>`).join('')}</ul>`);
+    }
+
+    const figures: string[] = [];
+    for (const screenshot of result.screenshots) {
+      figures.push(await this.renderFigure(screenshot.path, `${screenshot.step ? `${screenshot.step} - ` : ''}${screenshot.viewport} (${screenshot.width}×${screenshot.height})`));
+    }
+    if (result.visualDiff?.diffPath) {
+      figures.push(await this.renderFigure(result.visualDiff.diffPath, 'Visual diff'));
+    }
+    if (figures.length > 0) {
+      parts.push(`<div class="images">${figures.join('')}</div>`);
+    }
+
+    if (result.accessibility) {
+      const { score, wcagLevel, violations } = result.accessibility;
+      parts.push(`<h3>Accessibility: ${score}/100 (${this.escape(wcagLevel)})</h3>`);
+      if (violations.length === 0) {
+        parts.push('<p>No accessibility violations found.</p>');
+      }
+      this.groupByImpact(violations).forEach(([impact, group]) => {
+        parts.push(`<h4 class="${impact}">${impact} (${group.length})</h4>`);
+        parts.push(`<ul>${group.map(v => `<li><a href="${this.escape(v.helpUrl)}">${this.escape(v.help)}</a> <code>${this.escape(v.id)}</code> · ${v.nodes.length} element${v.nodes.length === 1 ? '' : 's'}<ul>${
+          v.nodes.slice(0, 5).map(n => `<li><code>${this.escape(n.target.join(' '))}</code></li>`).join('')
+        }</ul></li>`).join('')}</ul>`);
+      });
+    }
+
+    const overflows = this.getOverflows(result);
+    if (overflows.length > 0) {
+      parts.push('<h3>Layout overflows</h3>');
+      parts.push(`<table><tr><th>Element</th><th>Overflow X</th><th>Overflow Y</th></tr>${
+        overflows.map(o => `<tr><td><code>${this.escape(o.element)}</code></td><td>${o.overflowX}px</td><td>${o.overflowY}px</td></tr>`).join('')
+      }</table>`);
+    }
+
+    if (this.hasRuntimeIssues(result)) {
+      const { console: messages, pageErrors, failedRequests } = result.runtime;
+      parts.push('<h3>Runtime</h3>');
+      parts.push(`<ul>${[
+        ...pageErrors.map(e => `<li class="critical">Uncaught exception: ${this.escape(e.message)}</li>`),
+        ...messages.error.map(m => `<li class="serious">Console error: ${this.escape(m.text)}</li>`),
+        ...messages.warning.map(m => `<li class="moderate">Console warning: ${this.escape(m.text)}</li>`),
+        ...failedRequests.map(r => `<li class="serious">Request failed: <code>${this.escape(`${r.method} ${r.url}`)}</code> (${this.escape(r.failure)})</li>`),
+      ].join('')}</ul>`);
+    }
+
+    if (result.i18n?.issues.length) {
+      parts.push(`<h3>i18n layout (compared with ${this.escape(result.i18n.reference)})</h3>`);
+      parts.push(`<ul>${result.i18n.issues.map(issue =>
+        `<li class="moderate">${this.escape(issue.description)}</li>`
+      ).join('')}</ul>`);
+    }
+
+    if (result.network) {
+      const network = result.network;
+      parts.push(`<h3>Network: ${network.totalRequests} requests, ${this.formatBytes(network.totalBytes)}</h3>`);
+      parts.push(`<ul>${[
+        ...network.httpErrors.map(r => `<li class="serious"><code>${this.escape(r.url)}</code> returned ${r.status}</li>`),
+        ...network.mixedContent.map(m => `<li class="${m.blocked ? 'serious' : 'moderate'}">Mixed content${m.blocked ? ' (blocked)' : ''}: <code>${this.escape(m.url)}</code></li>`),
+        ...network.slow.map(r => `<li class="moderate">Slow ${this.escape(r.resourceType)}: <code>${this.escape(r.url)}</code> (${r.duration}ms)</li>`),
+        ...network.harPaths.map(harPath => `<li>HAR: <a href="${this.escape(this.relativePath(harPath))}">${this.escape(path.basename(harPath))}</a></li>`),
+      ].join('')}</ul>`);
+    }
+
+    if (result.visualDiff) {
+      const diff = result.visualDiff;
+      parts.push(`<h3>Visual diff: <span class="${diff.passed ? 'minor' : 'critical'}">${diff.passed ? 'passed' : 'failed'}</span></h3>`);
+      parts.push(`<p>${diff.diffPercentage}% of pixels differ (threshold ${diff.threshold}%)</p>`);
+      if (diff.structural && diff.structural.summary.length > 0) {
+        parts.push(`<ul>${diff.structural.summary.map(s => `<li>${this.escape(s)}</li>`).join('')}</ul>`);
+      }
+    }
+
+    if (result.suggestions.length > 0) {
+      parts.push('<h3>Suggestions</h3>');
+      parts.push(`<ul>${result.suggestions.map(s => `<li>${this.escape(s)}</li>`).join('')}</ul>`);
+    }
+
+    return `<section class="result">\n${parts.join('\n')}\n</section>`;
+  }
+
+  private renderSummaryHTML(results: ValidationResult[]): string {
+    const counts = this.countStatuses(results);
+    return [
+      `<span>Generated ${this.escape(new Date().toISOString())}</span>`,
+      `<span>${results.length} results</span>`,
+      `<span class="badge success">${counts.success} passed</span>`,
+      `<span class="badge warning">${counts.warning} warnings</span>`,
+      `<span class="badge error">${counts.error} errors</span>`,
+    ].join('');
+  }
+
+  /**
+   * Embed a downscaled copy of an image, linking to the full-size file
+   */
+  private async renderFigure(imagePath: string, caption: string): Promise<string> {
+    const thumbnail = await this.createThumbnail(imagePath);
+    const image = thumbnail
+      ? `<img src="${thumbnail}" alt="${this.escape(caption)}">`
+      : '<p class="meta">Image not available</p>';
+    return `<figure><figcaption><a href="${this.escape(this.relativePath(imagePath))}">${this.escape(caption)}</a></figcaption>${image}</figure>`;
+  }
+
+  private async createThumbnail(imagePath: string, width: number = 320): Promise<string | null> {
+    if (!fs.existsSync(imagePath)) {
+      return null;
+    }
+    try {
+      const buffer = await sharp(imagePath)
+        .resize({ width, withoutEnlargement: true })
+        .jpeg({ quality: 70 })
+        .toBuffer();
+      return `data:image/jpeg;base64,${buffer.toString('base64')}`;
+    } catch {
+      return null;
+    }
+  }
+
+  private groupByImpact(violations: AccessibilityViolation[]): Array<[string, AccessibilityViolation[]]> {
+    return IMPACT_ORDER
+      .map((impact): [string, AccessibilityViolation[]] => [impact, violations.filter(v => v.impact === impact)])
+      .filter(([, group]) => group.length > 0);
+  }
+
+  private getOverflows(result: ValidationResult) {
+    return (result.layout?.overflows || []).filter(o => o.overflowX > 0);
+  }
+
+  private hasRuntimeIssues(result: ValidationResult): boolean {
+    const runtime = result.runtime;
+    return !!runtime && (
+      runtime.pageErrors.length + runtime.console.error.length + runtime.console.warning.length + runtime.failedRequests.length > 0
+    );
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+
+  private countStatuses(results: ValidationResult[]) {
+    return {
+      success: results.filter(r => r.status === 'success').length,
+      warning: results.filter(r => r.status === 'warning').length,
+      error: results.filter(r => r.status === 'error').length,
+    };
+  }
+
+  private describeResult(result: ValidationResult): string {
+    if (result.scenario) {
+      return result.scenario;
+    }
+    if (result.route) {
+      const context = [result.viewport, result.browser, result.theme, result.locale].filter(Boolean).join(', ');
+      return context ? `${result.route} (${context})` : result.route;
+    }
+    return result.url;
+  }
+
+  private statusIcon(status: ValidationResult['status']): string {
+    return status === 'success' ? '✅' : status === 'warning' ? '⚠️' : '❌';
+  }
+
+  private relativePath(filePath: string): string {
+    return path.relative(this.outputDir, path.resolve(filePath)).split(path.sep).join('/');
+  }
+
+  private escape(text: string): string {
+    return String(text)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
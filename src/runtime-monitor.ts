@@ -0,0 +1,96 @@
+import { Page, ConsoleMessage, Request } from 'playwright';
+import { ConsoleLevel, RuntimeReport } from './types';
+
+/**
+ * Records console messages, uncaught exceptions and failed requests while pages load and run
+ */
+export class RuntimeMonitor {
+  private report: RuntimeReport = {
+    console: { error: [], warning: [], info: [], log: [], debug: [] },
+    pageErrors: [],
+    failedRequests: [],
+  };
+  private detachers: Array<() => void> = [];
+
+  /**
+   * Start listening to a page. Attach before navigating to catch load-time errors.
+   */
+  attach(page: Page): void {
+    const onConsole = (message: ConsoleMessage) => {
+      const level = this.getLevel(message.type());
+      const { url, lineNumber } = message.location();
+      this.report.console[level].push({
+        level,
+        text: message.text(),
+        url: url || undefined,
+        line: url ? lineNumber : undefined,
+      });
+    };
+    const onPageError = (error: Error) => {
+      this.report.pageErrors.push({ message: error.message, stack: error.stack });
+    };
+    const onRequestFailed = (request: Request) => {
+      this.report.failedRequests.push({
+        url: request.url(),
+        method: request.method(),
+        resourceType: request.resourceType(),
+        failure: request.failure()?.errorText || 'unknown error',
+      });
+    };
+
+    page.on('console', onConsole);
+    page.on('pageerror', onPageError);
+    page.on('requestfailed', onRequestFailed);
+
+    this.detachers.push(() => {
+      page.off('console', onConsole);
+      page.off('pageerror', onPageError);
+      page.off('requestfailed', onRequestFailed);
+    });
+  }
+
+  /**
+   * Stop listening to every attached page
+   */
+  detach(): void {
+    this.detachers.forEach(detach => detach());
+    this.detachers = [];
+  }
+
+  /**
+   * Everything recorded so far
+   */
+  getReport(): RuntimeReport {
+    return {
+      console: {
+        error: [...this.report.console.error],
+        warning: [...this.report.console.warning],
+        info: [...this.report.console.info],
+        log: [...this.report.console.log],
+        debug: [...this.report.console.debug],
+      },
+      pageErrors: [...this.report.pageErrors],
+      failedRequests: [...this.report.failedRequests],
+    };
+  }
+
+  /**
+   * Map Playwright console message types onto the levels we report
+   */
+  private getLevel(type: string): ConsoleLevel {
+    switch (type) {
+      case 'error':
+      case 'assert':
+        return 'error';
+      case 'warning':
+        return 'warning';
+      case 'info':
+        return 'info';
+      case 'debug':
+      case 'trace':
+        return 'debug';
+      default:
+        return 'log';
+    }
+  }
+}
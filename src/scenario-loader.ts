@@ -0,0 +1,292 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { Action, Scenario } from './types';
+import { SCENARIO_SCHEMA } from './scenario-schema';
+
+type JSONSchema = Record<string, any>;
+
+// Properties that tell the branches of a oneOf apart, checked in order
+const DISCRIMINATORS = ['type', 'assert'];
+
+/**
+ * Loads scenario files (YAML or JSON) and validates them against SCENARIO_SCHEMA
+ * Errors name the file and the step, e.g. `login.yml: actions[2]: missing "selector" for click`
+ */
+export class ScenarioLoader {
+  /**
+   * Load every scenario in the given files, directories or simple globs (`scenarios/*.yml`)
+   * Throws one error listing every problem in every file
+   */
+  load(patterns: string[]): Scenario[] {
+    const files = this.expandFiles(patterns);
+    if (files.length === 0) {
+      throw new Error(`No scenario files found for ${patterns.join(', ')}`);
+    }
+
+    const scenarios: Scenario[] = [];
+    const problems: string[] = [];
+
+    for (const file of files) {
+      const source = path.relative(process.cwd(), file) || file;
+      let data: unknown;
+      try {
+        const content = fs.readFileSync(file, 'utf-8');
+        data = file.endsWith('.json') ? JSON.parse(content) : yaml.safeLoad(content, { filename: source });
+      } catch (error) {
+        problems.push(`${source}: ${(error as Error).message}`);
+        continue;
+      }
+
+      const errors = this.validate(data);
+      if (errors.length > 0) {
+        problems.push(...errors.map(error => `${source}: ${error}`));
+        continue;
+      }
+
+      (Array.isArray(data) ? data : [data]).forEach((scenario: Scenario) => {
+        scenarios.push(this.normalize(scenario, source, path.dirname(file)));
+      });
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid scenario file${files.length === 1 ? '' : 's'}:\n  ${problems.join('\n  ')}`);
+    }
+
+    return scenarios;
+  }
+
+  /**
+   * Problems with parsed scenario data, one message per problem; empty when valid
+   */
+  validate(data: unknown): string[] {
+    const errors: string[] = [];
+    this.check(SCENARIO_SCHEMA, data, '', errors);
+    return errors;
+  }
+
+  /**
+   * The JSON Schema scenario files are validated against, for editor support
+   */
+  getSchema(): JSONSchema {
+    return SCENARIO_SCHEMA;
+  }
+
+  /**
+   * Upload paths are relative to the scenario file, so they are made absolute here
+   * before the working directory can change what they point at
+   */
+  private normalize(scenario: Scenario, source: string, dir: string): Scenario {
+    const resolveUploads = (actions?: Action[]) => actions?.map(action => action.type === 'upload'
+      ? { ...action, files: Array.isArray(action.files) ? action.files.map(file => path.resolve(dir, file)) : path.resolve(dir, action.files) }
+      : action);
+
+    return {
+      ...scenario,
+      setup: resolveUploads(scenario.setup),
+      actions: resolveUploads(scenario.actions),
+      assertions: scenario.assertions?.map(assertion => ({ ...assertion, type: 'assert' as const })),
+      source,
+    };
+  }
+
+  private check(schema: JSONSchema, value: any, at: string, errors: string[]): void {
+    schema = this.resolve(schema);
+    const where = at || 'scenario';
+
+    if (schema.oneOf) {
+      this.checkOneOf(schema.oneOf, value, at, errors);
+      return;
+    }
+
+    if ('const' in schema && value !== schema.const) {
+      errors.push(`${where}: must be ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}`);
+      return;
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      errors.push(`${where}: must be one of ${schema.enum.join(', ')}, got ${JSON.stringify(value)}`);
+      return;
+    }
+
+    if (schema.type && !this.hasType(value, schema.type)) {
+      errors.push(`${where}: expected ${schema.type}, got ${this.typeOf(value)}`);
+      return;
+    }
+
+    if (typeof value === 'string' && schema.minLength && value.length < schema.minLength) {
+      errors.push(`${where}: must not be empty`);
+    }
+
+    if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${where}: must be at least ${schema.minimum}, got ${value}`);
+    }
+
+    if (Array.isArray(value)) {
+      if (schema.minItems && value.length < schema.minItems) {
+        errors.push(`${where}: needs at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => this.check(schema.items, item, `${at}[${index}]`, errors));
+      }
+    }
+
+    if (schema.type === 'object' && this.typeOf(value) === 'object') {
+      const properties: Record<string, JSONSchema> = schema.properties || {};
+      const label = schema.title ? ` for ${schema.title}` : '';
+
+      (schema.required || []).forEach((name: string) => {
+        if (value[name] === undefined) {
+          errors.push(`${where}: missing "${name}"${label}`);
+        }
+      });
+
+      Object.keys(value).forEach((name) => {
+        const child = at ? `${at}.${name}` : name;
+        if (properties[name]) {
+          this.check(properties[name], value[name], child, errors);
+        } else if (schema.additionalProperties === false) {
+          const suggestion = this.suggest(name, Object.keys(properties));
+          errors.push(`${where}: unknown property "${name}"${label}${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+        }
+      });
+    }
+  }
+
+  /**
+   * Steps are told apart by their type (and assert kind) so errors are about
+   * the step that was meant, not a list of every branch that did not match
+   */
+  private checkOneOf(branches: JSONSchema[], value: any, at: string, errors: string[]): void {
+    const where = at || 'scenario';
+    let candidates = branches.map(branch => this.resolve(branch));
+
+    if (this.typeOf(value) === 'object') {
+      for (const key of DISCRIMINATORS) {
+        const tags = candidates.map(branch => branch.properties?.[key]?.const);
+        const allowed = Array.from(new Set(tags.filter(tag => tag !== undefined)));
+        if (tags.includes(undefined) || allowed.length < 2) {
+          continue;
+        }
+
+        if (value[key] === undefined) {
+          errors.push(`${where}: missing "${key}" (one of ${allowed.join(', ')})`);
+          return;
+        }
+        const matching = candidates.filter(branch => branch.properties[key].const === value[key]);
+        if (matching.length === 0) {
+          const suggestion = this.suggest(String(value[key]), allowed);
+          errors.push(
+            `${where}: unknown ${key} ${JSON.stringify(value[key])}` +
+            `${suggestion ? ` (did you mean "${suggestion}"?)` : ''}; expected one of ${allowed.join(', ')}`
+          );
+          return;
+        }
+        candidates = matching;
+      }
+    }
+
+    if (candidates.length === 1) {
+      this.check(candidates[0], value, at, errors);
+      return;
+    }
+
+    // Untagged alternatives, e.g. a number or { min, max }: report the closest one
+    const attempts = candidates.map((branch) => {
+      const branchErrors: string[] = [];
+      this.check(branch, value, at, branchErrors);
+      return { branch, errors: branchErrors };
+    });
+    if (attempts.some(attempt => attempt.errors.length === 0)) {
+      return;
+    }
+    const sameType = attempts.filter(attempt => this.hasType(value, attempt.branch.type));
+    if (sameType.length === 0) {
+      const expected = Array.from(new Set(candidates.map(branch => branch.type).filter(Boolean)));
+      errors.push(`${where}: expected ${expected.join(' or ')}, got ${this.typeOf(value)}`);
+      return;
+    }
+    errors.push(...sameType.reduce((best, attempt) => attempt.errors.length < best.errors.length ? attempt : best).errors);
+  }
+
+  private resolve(schema: JSONSchema): JSONSchema {
+    if (!schema.$ref) {
+      return schema;
+    }
+    const name = schema.$ref.replace('#/definitions/', '');
+    return SCENARIO_SCHEMA.definitions[name];
+  }
+
+  private hasType(value: any, type?: string): boolean {
+    switch (type) {
+      case undefined:
+        return true;
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && !isNaN(value);
+      default:
+        return this.typeOf(value) === type;
+    }
+  }
+
+  private typeOf(value: any): string {
+    if (value === null) {
+      return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+  }
+
+  /**
+   * Closest name within two edits, for typos like "selecter" or "clik"
+   */
+  private suggest(name: string, candidates: string[]): string | undefined {
+    const distance = (a: string, b: string): number => {
+      const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+      for (let i = 1; i <= a.length; i++) {
+        let previous = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+          const current = row[j];
+          row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+          previous = current;
+        }
+      }
+      return row[b.length];
+    };
+
+    const ranked = candidates
+      .map(candidate => ({ candidate, score: distance(name.toLowerCase(), candidate.toLowerCase()) }))
+      .sort((a, b) => a.score - b.score);
+    return ranked[0] && ranked[0].score <= 2 ? ranked[0].candidate : undefined;
+  }
+
+  /**
+   * Files for each argument: the file itself, the scenario files in a directory,
+   * or the matches of a `*` pattern in the last path segment
+   */
+  private expandFiles(patterns: string[]): string[] {
+    const isScenarioFile = (file: string) => /\.(ya?ml|json)$/.test(file);
+    const files: string[] = [];
+
+    for (const pattern of patterns) {
+      const resolved = path.resolve(pattern);
+      if (pattern.includes('*')) {
+        const dir = path.dirname(resolved);
+        const escaped = path.basename(resolved).split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+        const matcher = new RegExp(`^${escaped.join('.*')}$`);
+        if (fs.existsSync(dir)) {
+          files.push(...fs.readdirSync(dir).filter(name => matcher.test(name)).sort().map(name => path.join(dir, name)));
+        }
+      } else if (fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()) {
+        files.push(...fs.readdirSync(resolved).filter(isScenarioFile).sort().map(name => path.join(resolved, name)));
+      } else if (fs.existsSync(resolved)) {
+        files.push(resolved);
+      } else {
+        throw new Error(`Scenario file not found: ${pattern}`);
+      }
+    }
+
+    return Array.from(new Set(files));
+  }
+}
@@ -0,0 +1,179 @@
+import { Action, ActionAssert } from './types';
+
+/**
+ * JSON Schema for scenario files
+ * Built from one entry per action type and assert kind; the Record types make
+ * the compiler flag an action added to the Action union without a schema here
+ */
+
+type JSONSchema = Record<string, any>;
+
+interface StepSchema {
+  required?: string[];
+  properties: Record<string, JSONSchema>;
+}
+
+const selector: JSONSchema = { type: 'string', minLength: 1, description: 'Playwright selector' };
+const timeout: JSONSchema = { type: 'integer', minimum: 0, description: 'Milliseconds' };
+const text: JSONSchema = { type: 'string' };
+const numberConstraint: JSONSchema = {
+  oneOf: [
+    { type: 'number' },
+    {
+      type: 'object',
+      additionalProperties: false,
+      properties: { min: { type: 'number' }, max: { type: 'number' } },
+    },
+  ],
+};
+const viewport: JSONSchema = {
+  oneOf: [
+    { type: 'string', minLength: 1, description: 'Preset, config preset or Playwright device name' },
+    {
+      type: 'object',
+      required: ['width', 'height'],
+      additionalProperties: false,
+      properties: {
+        width: { type: 'integer', minimum: 1 },
+        height: { type: 'integer', minimum: 1 },
+        deviceScaleFactor: { type: 'number', minimum: 0 },
+        isMobile: { type: 'boolean' },
+        hasTouch: { type: 'boolean' },
+        userAgent: { type: 'string' },
+        name: { type: 'string' },
+      },
+    },
+  ],
+};
+
+const ACTIONS: Record<Exclude<Action['type'], 'assert'>, StepSchema> = {
+  click: {
+    required: ['selector'],
+    properties: {
+      selector,
+      button: { enum: ['left', 'right', 'middle'] },
+      clickCount: { type: 'integer', minimum: 1 },
+    },
+  },
+  hover: { required: ['selector'], properties: { selector, duration: timeout } },
+  fill: { required: ['selector', 'value'], properties: { selector, value: text } },
+  type: { required: ['selector', 'text'], properties: { selector, text, delay: timeout } },
+  scroll: { properties: { selector, x: { type: 'number' }, y: { type: 'number' } } },
+  wait: { properties: { selector, duration: timeout } },
+  press: { required: ['key'], properties: { key: { type: 'string', minLength: 1 } } },
+  select: { required: ['selector', 'value'], properties: { selector, value: text } },
+  drag: { required: ['selector', 'target'], properties: { selector, target: selector } },
+  upload: {
+    required: ['selector', 'files'],
+    properties: {
+      selector,
+      files: { oneOf: [{ type: 'string', minLength: 1 }, { type: 'array', items: { type: 'string', minLength: 1 } }] },
+    },
+  },
+  check: { required: ['selector'], properties: { selector } },
+  uncheck: { required: ['selector'], properties: { selector } },
+  focus: { required: ['selector'], properties: { selector } },
+  blur: { required: ['selector'], properties: { selector } },
+  goto: {
+    required: ['url'],
+    properties: {
+      url: { type: 'string', minLength: 1 },
+      waitUntil: { enum: ['load', 'domcontentloaded', 'networkidle', 'commit'] },
+    },
+  },
+  setViewport: { required: ['viewport'], properties: { viewport } },
+  evaluate: { required: ['script'], properties: { script: { type: 'string', minLength: 1 } } },
+  screenshot: { properties: { name: { type: 'string', minLength: 1 }, selector, fullPage: { type: 'boolean' } } },
+  waitForNavigation: { properties: { url: { type: 'string', minLength: 1 }, timeout } },
+  waitForResponse: {
+    required: ['url'],
+    properties: { url: { type: 'string', minLength: 1 }, status: { type: 'integer', minimum: 100 }, timeout },
+  },
+};
+
+const ASSERTIONS: Record<ActionAssert['assert'], StepSchema> = {
+  visible: { required: ['selector'], properties: { selector } },
+  hidden: { required: ['selector'], properties: { selector } },
+  text: { required: ['selector'], properties: { selector, equals: text, contains: text } },
+  attribute: {
+    required: ['selector', 'name'],
+    properties: { selector, name: { type: 'string', minLength: 1 }, equals: text, contains: text },
+  },
+  css: {
+    required: ['selector', 'property'],
+    properties: { selector, property: { type: 'string', minLength: 1 }, equals: text, contains: text },
+  },
+  count: {
+    required: ['selector'],
+    properties: {
+      selector,
+      equals: { type: 'integer', minimum: 0 },
+      min: { type: 'integer', minimum: 0 },
+      max: { type: 'integer', minimum: 0 },
+    },
+  },
+  url: { required: ['matches'], properties: { matches: { type: 'string', minLength: 1 } } },
+  box: {
+    required: ['selector'],
+    properties: { selector, width: numberConstraint, height: numberConstraint, x: numberConstraint, y: numberConstraint },
+  },
+};
+
+const actionBranch = (type: string, step: StepSchema): JSONSchema => ({
+  title: type,
+  type: 'object',
+  required: ['type', ...(step.required || [])],
+  additionalProperties: false,
+  properties: { type: { const: type }, ...step.properties },
+});
+
+// Entries of a scenario's assertions list may leave out `type: assert`
+const assertBranch = (kind: string, step: StepSchema, requireType: boolean): JSONSchema => ({
+  title: `assert ${kind}`,
+  type: 'object',
+  required: [...(requireType ? ['type'] : []), 'assert', ...(step.required || [])],
+  additionalProperties: false,
+  properties: { type: { const: 'assert' }, assert: { const: kind }, timeout, ...step.properties },
+});
+
+const scenario: JSONSchema = {
+  title: 'scenario',
+  type: 'object',
+  required: ['name', 'url'],
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string' },
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    url: { type: 'string', minLength: 1, description: 'Absolute, or relative to the host' },
+    viewports: { type: 'array', minItems: 1, items: viewport },
+    setup: { type: 'array', items: { $ref: '#/definitions/action' } },
+    actions: { type: 'array', items: { $ref: '#/definitions/action' } },
+    assertions: { type: 'array', items: { $ref: '#/definitions/assertion' } },
+    waitForSelector: selector,
+    fullPage: { type: 'boolean' },
+    accessibility: { type: 'boolean' },
+  },
+};
+
+export const SCENARIO_SCHEMA: JSONSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'uisentinel scenario file',
+  description: 'One scenario, or a list of them',
+  oneOf: [
+    { $ref: '#/definitions/scenario' },
+    { type: 'array', minItems: 1, items: { $ref: '#/definitions/scenario' } },
+  ],
+  definitions: {
+    scenario,
+    action: {
+      oneOf: [
+        ...Object.entries(ACTIONS).map(([type, step]) => actionBranch(type, step)),
+        ...Object.entries(ASSERTIONS).map(([kind, step]) => assertBranch(kind, step, true)),
+      ],
+    },
+    assertion: {
+      oneOf: Object.entries(ASSERTIONS).map(([kind, step]) => assertBranch(kind, step, false)),
+    },
+  },
+};
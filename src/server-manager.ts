@@ -1,7 +1,11 @@
 import { spawn, ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import * as https from 'https';
 import detectPort from 'detect-port';
 import treeKill from 'tree-kill';
-import { ServerInfo, Framework } from './types';
+import { ServerInfo, ServerOptions, Framework, FrameworkDetectionResult } from './types';
 import { FrameworkDetector } from './framework-detector';
 
 /**
@@ -9,106 +13,168 @@ import { FrameworkDetector } from './framework-detector';
  */
 export class ServerManager {
   private projectPath: string;
+  private options: ServerOptions;
+  private app?: string;
   private process: ChildProcess | null = null;
   private serverInfo: ServerInfo | null = null;
+  private log: fs.WriteStream | null = null;
 
-  constructor(projectPath: string) {
+  constructor(projectPath: string, options: ServerOptions = {}, app?: string) {
     this.projectPath = projectPath;
+    this.options = options;
+    this.app = app;
   }
 
   /**
-   * Start the development server
+   * Start the development server, or attach to one that is already running
+   * Resolves once the ready URL responds with an expected status (and readyPattern, if set, has been printed)
    */
   async start(preferredPort?: number): Promise<ServerInfo> {
     if (this.serverInfo) {
       return this.serverInfo;
     }
 
-    const detector = new FrameworkDetector(this.projectPath);
-    const detection = await detector.detect();
-    const packageManager = detector.getPackageManager();
+    const running = await this.findRunningServer(preferredPort);
+    if (running) {
+      console.log(`Using the ${running.framework} server already running at ${running.url}`);
+      this.serverInfo = running;
+      return running;
+    }
 
-    // Find available port
-    const port = await this.findAvailablePort(preferredPort || detection.port);
-    
-    // Modify command to use available port
-    const command = this.buildCommand(detection.command, port, packageManager);
-    
-    console.log(`Starting ${detection.framework} server on port ${port}...`);
+    // A configured URL that is not up yet is started on its own port
+    if (this.options.url) {
+      preferredPort = Number(new URL(this.options.url).port) || preferredPort;
+    }
+
+    const { framework, port, command, banner } = await this.resolveCommand(preferredPort);
+    const readyUrl = this.options.readyUrl
+      ? this.options.readyUrl.replace(/\{port\}/g, port.toString())
+      : `http://localhost:${port}${this.options.readyPath || '/'}`;
+    const readyPattern = typeof this.options.readyPattern === 'string'
+      ? new RegExp(this.options.readyPattern, 'i')
+      : this.options.readyPattern;
+    const timeout = this.options.timeout || 60000;
+    const logFile = path.resolve(this.options.logFile || 'server.log');
+
+    console.log(`Starting ${framework} server on port ${port}...`);
     console.log(`Command: ${command}`);
+    console.log(`Logs: ${logFile}`);
+
+    fs.mkdirSync(path.dirname(logFile), { recursive: true });
+    this.log = fs.createWriteStream(logFile, { flags: 'a' });
+    this.log.write(`\n[${new Date().toISOString()}] ${command}\n`);
 
     return new Promise((resolve, reject) => {
+      let settled = false;
+      let patternSeen = !readyPattern;
+      let bannerSeen = false;
+      let tail = '';
+
+      const fail = (message: string) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        const output = tail.trim() ? `\nLast server output (full log: ${logFile}):\n${tail.trim()}` : `\nFull log: ${logFile}`;
+        this.stop().finally(() => reject(new Error(message + output)));
+      };
+
       this.process = spawn(command, {
         shell: true,
         cwd: this.projectPath,
-        env: { ...process.env, PORT: port.toString() },
+        env: { ...process.env, ...this.options.env, PORT: port.toString() },
       });
 
-      let output = '';
-      let errorOutput = '';
-
-      this.process.stdout?.on('data', (data) => {
-        const text = data.toString();
-        output += text;
-        console.log(text);
-
-        // Detect when server is ready
-        if (this.isServerReady(text, detection.framework)) {
-          this.serverInfo = {
-            url: `http://localhost:${port}`,
-            port,
-            pid: this.process!.pid!,
-            framework: detection.framework,
-          };
-          resolve(this.serverInfo);
+      const onOutput = (data: Buffer) => {
+        this.log?.write(data);
+        tail = (tail + data.toString()).split('\n').slice(-20).join('\n');
+        if (!patternSeen && readyPattern.test(tail)) {
+          patternSeen = true;
         }
-      });
-
-      this.process.stderr?.on('data', (data) => {
-        const text = data.toString();
-        errorOutput += text;
-        console.error(text);
-      });
+        if (!bannerSeen && banner?.test(tail)) {
+          bannerSeen = true;
+        }
+      };
+      this.process.stdout?.on('data', onOutput);
+      this.process.stderr?.on('data', onOutput);
 
       this.process.on('error', (error) => {
-        reject(new Error(`Failed to start server: ${error.message}`));
+        fail(`Failed to start server: ${error.message}`);
       });
 
       this.process.on('exit', (code) => {
-        if (code !== 0 && !this.serverInfo) {
-          reject(new Error(`Server exited with code ${code}\n${errorOutput}`));
-        }
+        // Nothing left to kill
+        this.process = null;
+        this.log?.end();
+        this.log = null;
+        fail(`Server exited with code ${code} before it was ready`);
       });
 
-      // Timeout after 60 seconds
-      setTimeout(() => {
-        if (!this.serverInfo) {
-          reject(new Error('Server start timeout (60s). Server output:\n' + output));
+      const timer = setTimeout(() => {
+        const waitingFor = patternSeen ? readyUrl : `${readyPattern} in the server output`;
+        // The framework's own ready message tells a slow compile apart from a wrong URL or status
+        const hint = !banner || !patternSeen
+          ? ''
+          : bannerSeen
+            ? ` (${framework} reported it was listening, so check readyPath, readyStatus and the port)`
+            : ` (${framework} has not reported it is listening yet)`;
+        fail(`Server start timeout (${timeout / 1000}s) waiting for ${waitingFor}${hint}`);
+      }, timeout);
+
+      const poll = async () => {
+        while (!settled) {
+          if (patternSeen) {
+            const status = await this.probe(readyUrl);
+            if (status !== null && this.isReadyStatus(status) && !settled) {
+              settled = true;
+              clearTimeout(timer);
+              this.serverInfo = {
+                url: this.options.readyUrl ? new URL(readyUrl).origin : `http://localhost:${port}`,
+                port,
+                pid: this.process!.pid!,
+                framework,
+                logFile,
+              };
+              resolve(this.serverInfo);
+              return;
+            }
+          }
+          await new Promise(r => setTimeout(r, 500));
         }
-      }, 60000);
+      };
+      poll();
     });
   }
 
   /**
    * Stop the development server
+   * Servers that were already running are left alone
    */
   async stop(): Promise<void> {
     if (!this.process) {
+      this.serverInfo = null;
       return;
     }
 
     return new Promise((resolve) => {
+      const done = () => {
+        this.log?.end();
+        this.log = null;
+        this.process = null;
+        this.serverInfo = null;
+        resolve();
+      };
+
       if (this.process!.pid) {
         treeKill(this.process!.pid, 'SIGTERM', (err) => {
           if (err) {
             console.error('Error killing process:', err);
           }
-          this.process = null;
-          this.serverInfo = null;
-          resolve();
+          done();
         });
       } else {
-        resolve();
+        done();
       }
     });
   }
@@ -120,6 +186,96 @@ export class ServerManager {
     return this.serverInfo;
   }
 
+  /**
+   * A server already answering on the configured URL, or on the preferred or detected port
+   */
+  private async findRunningServer(preferredPort?: number): Promise<ServerInfo | null> {
+    if (!this.options.url && this.options.reuseExisting === false) {
+      return null;
+    }
+
+    const detection = await new FrameworkDetector(this.projectPath, this.app).detect().catch(() => null);
+    const candidates = this.options.url
+      ? [this.options.url.replace(/\/$/, '')]
+      : Array.from(new Set([preferredPort, detection?.port].filter(Boolean)))
+        .map(port => `http://localhost:${port}`);
+
+    for (const url of candidates) {
+      // Any answer counts: a 404 on / still means the port is taken by a live server
+      if (await this.probe(url) === null) {
+        continue;
+      }
+
+      const parsed = new URL(url);
+      return {
+        url,
+        port: Number(parsed.port) || (parsed.protocol === 'https:' ? 443 : 80),
+        framework: detection?.framework || 'custom',
+        external: true,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Start command and port: the configured command if there is one, otherwise the detected one
+   * Also returns the detected framework's ready message, used to explain start timeouts
+   */
+  private async resolveCommand(
+    preferredPort?: number
+  ): Promise<{ framework: Framework; port: number; command: string; banner?: RegExp }> {
+    const detector = new FrameworkDetector(this.projectPath, this.app);
+
+    if (this.options.command) {
+      // Detection only names the framework here, so a project it cannot read is fine
+      const detection = await detector.detect().catch(() => null);
+      const port = await this.findAvailablePort(preferredPort || detection?.port || 3000);
+      return {
+        framework: detection?.framework || 'custom',
+        port,
+        command: this.options.command.replace(/\{port\}/g, port.toString()),
+        banner: detection?.readyPattern,
+      };
+    }
+
+    const detection = await detector.detect();
+    const packageManager = detector.getPackageManager();
+
+    // Find available port
+    const port = await this.findAvailablePort(preferredPort || detection.port);
+
+    // Modify command to use available port
+    const command = detection.app
+      ? this.buildWorkspaceCommand(detection, port)
+      : this.buildCommand(detection.command, port, packageManager);
+
+    return { framework: detection.framework, port, command, banner: detection.readyPattern };
+  }
+
+  /**
+   * Status code of a GET request, or null when nothing answers yet
+   */
+  private probe(url: string): Promise<number | null> {
+    return new Promise((resolve) => {
+      const client = url.startsWith('https:') ? https : http;
+      const request = client.get(url, { timeout: 5000, rejectUnauthorized: false }, (response) => {
+        response.resume();
+        resolve(response.statusCode ?? null);
+      });
+      request.on('timeout', () => request.destroy());
+      request.on('error', () => resolve(null));
+    });
+  }
+
+  private isReadyStatus(status: number): boolean {
+    const expected = this.options.readyStatus;
+    if (expected === undefined) {
+      return status >= 200 && status < 400;
+    }
+    return Array.isArray(expected) ? expected.includes(status) : status === expected;
+  }
+
   private async findAvailablePort(preferredPort: number): Promise<number> {
     const availablePort = await detectPort(preferredPort);
     if (availablePort !== preferredPort) {
@@ -142,7 +298,7 @@ export class ServerManager {
     
     if (!startsWithPm) {
       // Commands that are direct CLI tools
-      const cliTools = ['vite', 'next', 'ng', 'astro'];
+      const cliTools = ['vite', 'next', 'ng', 'astro', 'remix', 'nuxi', 'nuxt', 'gatsby', 'vinxi', 'solid-start', 'eleventy'];
       const commandStart = baseCommand.split(' ')[0];
       
       if (cliTools.includes(commandStart)) {
@@ -155,30 +311,51 @@ export class ServerManager {
     }
 
     // Add port based on the command type
-    if (!command.includes('--port') && !command.includes('-p')) {
-      if (command.includes('serve')) {
-        command += ` -l ${port}`;
-      } else {
-        command += ` --port ${port}`;
-      }
+    const portFlag = this.getPortFlag(command, port);
+    return portFlag ? `${command} ${portFlag}` : command;
+  }
+
+  /**
+   * Runs a workspace app's dev script from the workspace root through the package manager's filter
+   * Nx projects without a dev script run their serve target instead
+   */
+  private buildWorkspaceCommand(detection: FrameworkDetectionResult, port: number): string {
+    const { name, script, target } = detection.app!;
+    // The flag goes to the app's own dev command, so it depends on what that command is
+    const portFlag = this.getPortFlag(detection.command, port);
+    const args = portFlag ? ` ${portFlag}` : '';
+
+    if (!script) {
+      return `npx nx run ${name}:${target}${args}`;
     }
 
-    return command;
+    switch (detection.workspace!.packageManager) {
+      case 'pnpm':
+        return `pnpm --filter ${name} run ${script}${args}`;
+      case 'yarn':
+        return `yarn workspace ${name} run ${script}${args}`;
+      case 'bun':
+        return `bun run --filter ${name} ${script}${args}`;
+      default:
+        // npm keeps options before -- for itself
+        return `npm run ${script} --workspace=${name}${portFlag ? ` -- ${portFlag}` : ''}`;
+    }
   }
 
-  private isServerReady(output: string, framework: Framework): boolean {
-    const readyPatterns = {
-      nextjs: /ready|started server|compiled client and server/i,
-      vite: /local:.*http:\/\/localhost/i,
-      cra: /compiled successfully|webpack compiled/i,
-      angular: /compiled successfully|angular live development server/i,
-      'svelte-kit': /local:.*http:\/\/localhost/i,
-      astro: /astro.*ready/i,
-      html: /serving|available on|accepting connections/i,
-      custom: /ready|started|listening|running|accepting connections/i,
-    };
-
-    const pattern = readyPatterns[framework] || readyPatterns.custom;
-    return pattern.test(output);
+  /**
+   * Port option for a dev command, or '' when the command sets the port itself
+   */
+  private getPortFlag(command: string, port: number): string {
+    if (command.includes('--port') || command.includes('-p')) {
+      return '';
+    }
+
+    // Remix's classic dev server hands PORT to the app server; its --port is the HMR socket
+    if (/\bremix dev\b/.test(command)) {
+      return '';
+    }
+
+    // Only the static `serve` package takes -l; `ng serve` and `eleventy --serve` take --port
+    return /^(npx )?serve\b/.test(command) ? `-l ${port}` : `--port ${port}`;
   }
 }
@@ -7,17 +7,27 @@ export type Viewport = {
   height: number;
   deviceScaleFactor?: number;
   isMobile?: boolean;
+  hasTouch?: boolean;
+  userAgent?: string;
+  name?: string;      // Reported in file names and results instead of WIDTHxHEIGHT
 };
 
-export type ViewportPreset = 'mobile' | 'tablet' | 'desktop' | 'mobile-landscape';
+export type BuiltinViewportPreset = 'mobile' | 'tablet' | 'desktop' | 'mobile-landscape';
 
-export const VIEWPORT_PRESETS: Record<ViewportPreset, Viewport> = {
+/**
+ * A built-in preset, a preset from config.viewportPresets, or a Playwright device name such as 'iPhone 13'
+ */
+export type ViewportPreset = BuiltinViewportPreset | (string & {});
+
+export const VIEWPORT_PRESETS: Record<BuiltinViewportPreset, Viewport> = {
   mobile: { width: 375, height: 667, deviceScaleFactor: 2, isMobile: true },
   tablet: { width: 768, height: 1024, deviceScaleFactor: 2, isMobile: true },
   desktop: { width: 1920, height: 1080, deviceScaleFactor: 1, isMobile: false },
   'mobile-landscape': { width: 667, height: 375, deviceScaleFactor: 2, isMobile: true },
 };
 
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
 export type Framework = 
   | 'nextjs' 
   | 'vite' 
@@ -26,10 +36,33 @@ export type Framework =
   | 'angular' 
   | 'svelte-kit' 
   | 'astro'
+  | 'remix'
+  | 'nuxt'
+  | 'gatsby'
+  | 'qwik'
+  | 'solid-start'
+  | 'eleventy'
   | 'custom'
   | 'auto';
 
-export type AccessibilityStandard = 'WCAG21A' | 'WCAG21AA' | 'WCAG21AAA';
+export type AccessibilityStandard =
+  | 'WCAG21A'
+  | 'WCAG21AA'
+  | 'WCAG21AAA'
+  | 'WCAG22A'
+  | 'WCAG22AA'
+  | 'WCAG22AAA';
+
+/**
+ * A waived accessibility finding: an axe rule ID, or a selector whose
+ * subtree is excluded from every rule (or only from `rule`)
+ */
+export type AccessibilityIgnore = string | { selector: string; rule?: string };
+
+export interface AccessibilityOptions {
+  standard?: AccessibilityStandard;
+  ignore?: AccessibilityIgnore[];
+}
 
 export interface AccessibilityViolation {
   id: string;
@@ -52,13 +85,260 @@ export interface AccessibilityResult {
   wcagLevel: AccessibilityStandard;
 }
 
+export interface ContrastIssue {
+  selector: string;
+  ratio: string;
+  ratioNumber: number;
+  required: string;
+  foreground: string;
+  background: string;
+  fontSize: string;
+  isLargeText: boolean;
+  severity: 'critical' | 'serious' | 'moderate';
+  passesAA: boolean;
+  passesAAA: boolean;
+}
+
+export interface ContrastResult {
+  issues: ContrastIssue[];
+  stats: {
+    totalElements: number;
+    passed: number;
+    failedAA: number;
+    failedAAA: number;
+    critical: number;
+  };
+  summary: string;
+}
+
+export interface TouchTargetIssue {
+  selector: string;
+  tagName: string;
+  text: string;
+  width: number;
+  height: number;
+  severity: 'critical' | 'high' | 'medium';
+  recommendation: string;
+}
+
+export type VisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+/**
+ * An element that differs from its peers only by color, e.g. an invalid input with just a red border
+ */
+export interface ColorOnlySignal {
+  selector: string;
+  peerSelector: string;  // A peer in the normal state, identical apart from color
+  property: 'color' | 'background-color' | 'border-color' | 'outline-color';
+  color: string;
+  peerColor: string;
+  indistinguishableUnder: VisionDeficiency[];  // Deficiencies under which both colors look alike
+  description: string;
+}
+
+export interface VisionSimulationResult {
+  url: string;
+  method: 'cdp' | 'svg-filter';
+  screenshots: Array<{ deficiency: VisionDeficiency | 'normal'; path: string }>;
+  gridPath: string;
+  colorOnlySignals: ColorOnlySignal[];
+}
+
+/**
+ * A physical CSS property that will not mirror in a right-to-left layout
+ */
+export interface RTLPhysicalProperty {
+  selector: string;
+  property: string;    // e.g. 'margin-left'
+  value: string;
+  logical: string;     // Suggested replacement, e.g. 'margin-inline-start: 16px'
+  elements: number;    // Elements on the page the declaration applies to
+  source: 'stylesheet' | 'inline';
+}
+
+export interface RTLCheckResult {
+  url: string;
+  direction: 'ltr' | 'rtl';
+  declaredDir: string | null;  // dir attribute on <html> or <body>
+  lang: string | null;
+  forced: boolean;             // dir="rtl" was set by the check
+  physicalProperties: RTLPhysicalProperty[];
+  unflippedIcons: Array<{ selector: string; icon: string; reason: string }>;
+  leftOverflows: Array<{ selector: string; overflow: number; width: number }>;
+  pageOverflow: number;        // Horizontal scroll width beyond the viewport
+  summary: {
+    physicalProperties: number;
+    unflippedIcons: number;
+    leftOverflows: number;
+    total: number;
+  };
+  screenshot?: string;
+}
+
+export interface MobileUXResult {
+  score: number; // 0-100
+  isMobileFriendly: boolean;
+  touchTargets: TouchTargetIssue[];
+}
+
+export type ConsoleLevel = 'error' | 'warning' | 'info' | 'log' | 'debug';
+
+export interface RuntimeConsoleMessage {
+  level: ConsoleLevel;
+  text: string;
+  url?: string;
+  line?: number;
+}
+
+export interface RuntimeReport {
+  console: Record<ConsoleLevel, RuntimeConsoleMessage[]>;
+  pageErrors: Array<{ message: string; stack?: string }>;
+  failedRequests: Array<{ url: string; method: string; resourceType: string; failure: string }>;
+}
+
+export type ColorScheme = 'light' | 'dark' | 'no-preference';
+export type ReducedMotion = 'reduce' | 'no-preference';
+export type ForcedColors = 'active' | 'none';
+export type MediaType = 'screen' | 'print';
+
+export interface MediaEmulation {
+  colorScheme?: ColorScheme;      // prefers-color-scheme
+  reducedMotion?: ReducedMotion;  // prefers-reduced-motion
+  forcedColors?: ForcedColors;    // forced-colors (high contrast mode)
+  media?: MediaType;              // CSS media type, 'print' for print stylesheets
+}
+
+/**
+ * Values to combine when capturing every theme; each combination is one capture
+ */
+export interface ThemeMatrix {
+  colorScheme?: ColorScheme[];
+  reducedMotion?: ReducedMotion[];
+  forcedColors?: ForcedColors[];
+  media?: MediaType[];
+}
+
+export interface LocaleOptions {
+  locale?: string;          // e.g. 'de-DE'; sets navigator.language, Intl formatting and Accept-Language
+  timezoneId?: string;      // e.g. 'Europe/Berlin'
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  acceptLanguage?: string;  // Overrides the Accept-Language header derived from locale
+}
+
+/**
+ * Text that no longer fits once a page is translated
+ */
+export interface LocaleIssue {
+  element: string;
+  type: 'overflow' | 'truncation' | 'viewport-overflow';
+  overflowX: number;
+  overflowY: number;
+  description: string;
+}
+
+export interface AuthCookie {
+  name: string;
+  value: string;
+  url?: string;     // Defaults to the captured URL when neither url nor domain is set
+  domain?: string;
+  path?: string;    // Without a domain, scopes the cookie to the url's host
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+export interface AuthOptions {
+  storageState?: string;                  // Playwright storage state file, e.g. from `uisentinel auth record`
+  headers?: Record<string, string>;       // Extra HTTP headers sent with every request
+  cookies?: AuthCookie[];
+  httpCredentials?: { username: string; password: string };  // HTTP basic auth
+}
+
+export interface NetworkOptions {
+  har?: boolean;           // Write a HAR file next to the screenshots (default: true)
+  slowThreshold?: number;  // Requests taking at least this many ms are reported as slow (default: 1000)
+}
+
+export interface NetworkRequest {
+  url: string;
+  method: string;
+  resourceType: string;
+  status?: number;
+  statusText?: string;
+  size: number;      // Transferred bytes (headers + body)
+  duration: number;  // ms from request start to response end, -1 when unknown
+  failure?: string;
+}
+
+export interface MixedContentIssue {
+  url: string;
+  resourceType?: string;
+  blocked: boolean;
+}
+
+export interface NetworkSummary {
+  totalRequests: number;
+  totalBytes: number;
+  failed: NetworkRequest[];
+  httpErrors: NetworkRequest[];  // 4xx and 5xx responses
+  slow: NetworkRequest[];        // Slowest first
+  mixedContent: MixedContentIssue[];
+  harPaths: string[];
+}
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Area excluded from visual comparison, in screenshot pixels
+ */
+export interface IgnoreRegion extends Region {
+  selector?: string; // Selector the region was resolved from
+}
+
+/**
+ * CSS selector (every match is masked) or a rectangle in CSS pixels
+ */
+export type IgnoreRegionSpec = string | Region;
+
 export interface ScreenshotResult {
   viewport: string;
+  browser?: BrowserName;
+  theme?: string;  // Emulated media label, e.g. 'dark-forced-colors'
+  locale?: string;
   path: string;
   width: number;
   height: number;
   timestamp: string;
   url: string;
+  masks?: IgnoreRegion[];
+  step?: string;  // Name of the screenshot action that took it mid-sequence
+}
+
+export type ReportFormat = 'json' | 'html' | 'markdown' | 'junit' | 'sarif';
+
+export type DimensionMismatchPolicy = 'fail' | 'pad' | 'crop';
+
+export type RGBColor = [number, number, number];
+
+export interface VisualDiffOptions {
+  threshold?: number;          // Maximum differing pixels, in percent
+  pixelThreshold?: number;     // Per-pixel color distance (0-1), passed to pixelmatch
+  includeAA?: boolean;         // Count anti-aliased pixels as differences
+  alpha?: number;              // Opacity of the unchanged image in the diff output
+  diffColor?: RGBColor;
+  diffColorAlt?: RGBColor;     // Color for pixels that got darker, if different from diffColor
+  aaColor?: RGBColor;
+  dimensionPolicy?: DimensionMismatchPolicy;
+  ignore?: IgnoreRegionSpec[]; // Resolved to masks at capture time
+  masks?: IgnoreRegion[];      // Regions excluded from the comparison
+  maskColor?: RGBColor;        // Color of masked areas in the diff image
+  layoutTolerance?: number;    // Layout moves/resizes up to this many px are not reported
 }
 
 export interface VisualDiffResult {
@@ -68,20 +348,70 @@ export interface VisualDiffResult {
   totalPixels: number;
   passed: boolean;
   threshold: number;
+  masks?: IgnoreRegion[];
+  structural?: StructuralDiff;
+  dimensionMismatch?: {
+    policy: DimensionMismatchPolicy;
+    baseline: { width: number; height: number };
+    current: { width: number; height: number };
+  };
+}
+
+export type LayoutChangeType = 'moved' | 'resized' | 'added' | 'removed' | 'zIndex';
+
+export interface LayoutChange {
+  type: LayoutChangeType;
+  selector: string;
+  baseline?: LayoutElement;
+  current?: LayoutElement;
+  description: string;
+}
+
+export interface StructuralDiff {
+  changes: LayoutChange[];
+  moved: number;
+  resized: number;
+  added: number;
+  removed: number;
+  zIndexChanged: number;
+  summary: string[];
+}
+
+export interface BaselineMetadata {
+  name: string;
+  route?: string;
+  viewport?: string;
+  browser?: BrowserName;
+  theme?: string;
+  url?: string;
+  width: number;
+  height: number;
+  createdAt: string;
+  masks?: IgnoreRegion[];
+}
+
+export interface LayoutElement {
+  selector: string;
+  parent?: string;
+  boundingBox: { x: number; y: number; width: number; height: number };
+  visible: boolean;
+  zIndex: number;
 }
 
 export interface LayoutAnalysis {
   viewport: Viewport;
-  elements: Array<{
-    selector: string;
-    boundingBox: { x: number; y: number; width: number; height: number };
-    visible: boolean;
-    zIndex: number;
-  }>;
+  elements: LayoutElement[];
   overflows: Array<{
     element: string;
     overflowX: number;
     overflowY: number;
+    truncated?: boolean;   // Overflowing text is clipped (overflow hidden/clip or text-overflow: ellipsis)
+    scrollable?: boolean;  // The element scrolls, so the overflow is reachable
+  }>;
+  viewportOverflows?: Array<{  // Elements wider than the viewport, when requested
+    element: string;
+    width: number;
+    overflow: number;
   }>;
   invisibleText: Array<{
     element: string;
@@ -92,26 +422,65 @@ export interface LayoutAnalysis {
 export interface ValidationResult {
   status: 'success' | 'error' | 'warning';
   url: string;
+  route?: string;
+  scenario?: string;  // Set by runScenario()
+  scenarioSource?: string;  // File the scenario was loaded from, set by runScenario()
+  viewport?: string;
+  browser?: BrowserName;
+  theme?: string;
+  emulation?: MediaEmulation;
+  locale?: string;
+  i18n?: {
+    reference: string;      // Locale the others are compared with
+    issues: LocaleIssue[];  // Overflow and truncation that the reference locale does not have
+  };
   timestamp: string;
   screenshots: ScreenshotResult[];
   accessibility?: AccessibilityResult;
+  contrast?: ContrastResult;
+  mobileUX?: MobileUXResult;
   layout?: LayoutAnalysis;
+  runtime?: RuntimeReport;
+  network?: NetworkSummary;
   visualDiff?: VisualDiffResult;
+  assertions?: AssertionResult[];  // Results of assert actions; any failure makes the status 'error'
   suggestions: string[];
   errors: string[];
 }
 
 export interface UISentinelConfig {
   projectPath?: string;
+  project?: ProjectOptions;
   framework?: Framework;
   port?: number;
+  server?: ServerOptions;
   host?: string;
   headless?: boolean;
-  viewports?: ViewportPreset[] | Viewport[];
+  browsers?: BrowserName[];
+  viewports?: (ViewportPreset | Viewport)[];
+  viewportPresets?: Record<string, Viewport>;  // Named viewports usable wherever a preset is
   accessibility?: {
     enabled: boolean;
     standard: AccessibilityStandard;
-    ignore?: string[];
+    ignore?: AccessibilityIgnore[];
+  };
+  contrast?: {
+    enabled: boolean;
+  };
+  mobileUX?: {
+    enabled: boolean;
+  };
+  network?: {
+    enabled: boolean;
+  } & NetworkOptions;
+  auth?: AuthOptions;
+  emulation?: MediaEmulation;  // Media features emulated on every page
+  themeMatrix?: {
+    enabled: boolean;
+  } & ThemeMatrix;
+  locale?: LocaleOptions;  // Locale, timezone and geolocation for every page
+  i18n?: {
+    locales: string[];     // Locales for the i18n sweep; the first is the reference
   };
   screenshot?: {
     enabled: boolean;
@@ -121,10 +490,12 @@ export interface UISentinelConfig {
   };
   output?: {
     directory: string;
-    format: 'json' | 'html' | 'markdown';
+    format: ReportFormat;
   };
   timeout?: number;
   routes?: string[];
+  failOnPageError?: boolean;  // Mark results as errors when the page throws uncaught exceptions
+  visualDiff?: VisualDiffOptions;
 }
 
 // Interactive Action Types
@@ -178,6 +549,143 @@ export interface ActionSelect {
   value: string;
 }
 
+export interface ActionDrag {
+  type: 'drag';
+  selector: string;
+  target: string;  // Selector of the element to drop on
+}
+
+export interface ActionUpload {
+  type: 'upload';
+  selector: string;          // The file input
+  files: string | string[];  // Paths relative to the working directory; [] clears the input
+}
+
+export interface ActionCheck {
+  type: 'check' | 'uncheck';
+  selector: string;
+}
+
+export interface ActionFocus {
+  type: 'focus' | 'blur';
+  selector: string;
+}
+
+export interface ActionGoto {
+  type: 'goto';
+  url: string;  // Absolute, or relative to the current page
+  waitUntil?: 'load' | 'domcontentloaded' | 'networkidle' | 'commit';
+}
+
+export interface ActionSetViewport {
+  type: 'setViewport';
+  viewport: ViewportPreset | Viewport;  // Only the size changes; pixel ratio and touch are fixed per page
+}
+
+export interface ActionEvaluate {
+  type: 'evaluate';
+  script: string;  // JavaScript expression evaluated in the page
+}
+
+export interface ActionScreenshot {
+  type: 'screenshot';
+  name?: string;      // File name prefix (default: step-<n>)
+  selector?: string;  // Capture only this element
+  fullPage?: boolean;
+}
+
+export interface ActionWaitForNavigation {
+  type: 'waitForNavigation';
+  url?: string;  // URL or part of it to wait for; otherwise waits for the next load
+  timeout?: number;
+}
+
+export interface ActionWaitForResponse {
+  type: 'waitForResponse';
+  url: string;      // URL or part of it
+  status?: number;  // Only a response with this status counts
+  timeout?: number;
+}
+
+// Assertions are retried until they pass or `timeout` ms (default 5000) have passed; 0 checks once
+interface ActionAssertBase {
+  type: 'assert';
+  timeout?: number;
+}
+
+export interface ActionAssertVisibility extends ActionAssertBase {
+  assert: 'visible' | 'hidden';
+  selector: string;
+}
+
+export interface ActionAssertText extends ActionAssertBase {
+  assert: 'text';
+  selector: string;
+  equals?: string;    // Whitespace is collapsed before comparing
+  contains?: string;
+}
+
+export interface ActionAssertAttribute extends ActionAssertBase {
+  assert: 'attribute';
+  selector: string;
+  name: string;
+  equals?: string;    // Without equals or contains, the attribute only has to be present
+  contains?: string;
+}
+
+export interface ActionAssertCss extends ActionAssertBase {
+  assert: 'css';
+  selector: string;
+  property: string;   // e.g. 'outline-style'
+  equals?: string;    // Computed value, e.g. 'rgb(0, 0, 0)'
+  contains?: string;
+}
+
+export interface ActionAssertCount extends ActionAssertBase {
+  assert: 'count';
+  selector: string;
+  equals?: number;
+  min?: number;
+  max?: number;
+}
+
+export interface ActionAssertUrl extends ActionAssertBase {
+  assert: 'url';
+  matches: string;    // Part of the URL, or a regular expression such as '/\/orders\/\d+$/'
+}
+
+/**
+ * An exact value or a range, e.g. { min: 44 } for "at least 44"
+ */
+export type NumberConstraint = number | { min?: number; max?: number };
+
+export interface ActionAssertBox extends ActionAssertBase {
+  assert: 'box';
+  selector: string;   // Bounding box of the first match, in CSS pixels
+  width?: NumberConstraint;
+  height?: NumberConstraint;
+  x?: NumberConstraint;
+  y?: NumberConstraint;
+}
+
+export type ActionAssert =
+  | ActionAssertVisibility
+  | ActionAssertText
+  | ActionAssertAttribute
+  | ActionAssertCss
+  | ActionAssertCount
+  | ActionAssertUrl
+  | ActionAssertBox;
+
+export interface AssertionResult {
+  step: number;        // 1-based position in the action sequence
+  viewport?: string;
+  description: string; // e.g. 'text of #title contains "Welcome"'
+  passed: boolean;
+  expected: string;
+  actual: string;
+}
+
 export type Action = 
   | ActionClick
   | ActionHover
@@ -186,17 +694,51 @@ export type Action =
   | ActionScroll
   | ActionWait
   | ActionPress
-  | ActionSelect;
+  | ActionSelect
+  | ActionDrag
+  | ActionUpload
+  | ActionCheck
+  | ActionFocus
+  | ActionGoto
+  | ActionSetViewport
+  | ActionEvaluate
+  | ActionScreenshot
+  | ActionWaitForNavigation
+  | ActionWaitForResponse
+  | ActionAssert;
 
-export interface CaptureOptions {
-  url: string;
-  viewports?: ViewportPreset[] | Viewport[];
+/**
+ * A named flow loaded from a scenario file (see `uisentinel run`)
+ * Setup, actions and assertions run in that order as one sequence
+ */
+export interface Scenario {
+  name: string;
+  description?: string;
+  url: string;                // Absolute, or relative to the host
+  viewports?: (ViewportPreset | Viewport)[];
+  setup?: Action[];           // e.g. log in or dismiss a cookie banner
+  actions?: Action[];
+  assertions?: ActionAssert[];  // `type: assert` may be left out here
+  waitForSelector?: string;
+  fullPage?: boolean;
   accessibility?: boolean;
+  source?: string;            // File the scenario was loaded from
+}
+
+export interface CaptureOptions extends MediaEmulation, LocaleOptions {
+  url: string;
+  viewports?: (ViewportPreset | Viewport)[];
+  accessibility?: boolean | AccessibilityOptions;
+  contrast?: boolean;
+  mobileUX?: boolean;
+  network?: boolean | NetworkOptions;
   screenshot?: boolean;
   layoutAnalysis?: boolean;
+  viewportOverflow?: boolean;  // Also list elements wider than the viewport (needs layoutAnalysis)
   fullPage?: boolean;
   waitForSelector?: string;
   waitForTimeout?: number;
+  ignoreRegions?: IgnoreRegionSpec[];
   // Interactive capture options
   name?: string;
   description?: string;
@@ -210,11 +752,54 @@ export interface FrameworkDetectionResult {
   port: number;
   lockFile?: string;
   configFile?: string;
+  readyPattern?: RegExp; // Printed by the dev server once it is listening
+  workspace?: WorkspaceInfo;  // Set when the project is a monorepo root
+  app?: WorkspaceApp;         // The workspace app this result describes
+}
+
+export type WorkspaceTool = 'pnpm' | 'yarn' | 'npm' | 'bun' | 'turbo' | 'nx';
+
+export interface WorkspaceApp {
+  name: string;        // package.json name, or the Nx project name
+  path: string;        // Relative to the workspace root
+  framework: Framework;
+  port: number;
+  script?: string;     // Dev script, run through the package manager's workspace filter
+  target?: string;     // Nx target, for projects without a dev script
+}
+
+export interface WorkspaceInfo {
+  root: string;
+  tools: WorkspaceTool[];  // e.g. ['pnpm', 'turbo']
+  packageManager: 'npm' | 'yarn' | 'pnpm' | 'bun';
+  apps: WorkspaceApp[];
+}
+
+export interface ProjectOptions {
+  app?: string;  // Workspace app to start in a monorepo: package name, Nx project or directory
 }
 
 export interface ServerInfo {
   url: string;
   port: number;
-  pid: number;
+  pid?: number;          // Unset for servers uisentinel did not start
   framework: Framework;
+  logFile?: string;
+  external?: boolean;    // Already running when uisentinel started; left running on close()
+}
+
+/**
+ * How the dev server is started and when it counts as ready
+ */
+export interface ServerOptions {
+  url?: string;                      // Server you run yourself, e.g. http://localhost:3000; used when it responds, started otherwise
+  reuseExisting?: boolean;           // Attach to a server already answering on the port instead of starting another (default: true)
+  command?: string;                  // Start command used as-is instead of the detected one; {port} is replaced with the chosen port
+  env?: Record<string, string>;      // Extra environment variables for the server process
+  readyUrl?: string;                 // URL polled until it responds (default: http://localhost:<port><readyPath>)
+  readyPath?: string;                // Path polled on the started server (default: '/')
+  readyStatus?: number | number[];   // Status codes that mean ready (default: any 2xx or 3xx)
+  readyPattern?: string | RegExp;    // Also wait for this in the server output, e.g. /compiled successfully/
+  timeout?: number;                  // Give up after this many ms (default: 60000)
+  logFile?: string;                  // Where server output is written (default: <output dir>/server.log)
 }
@@ -0,0 +1,104 @@
+import { devices } from 'playwright';
+import { Viewport, ViewportPreset, BuiltinViewportPreset, VIEWPORT_PRESETS } from './types';
+
+/**
+ * Turns viewport names into viewports
+ * Looks names up in custom presets from config, then the built-in presets, then Playwright's device catalog
+ */
+export class ViewportResolver {
+  constructor(private customPresets: Record<string, Viewport> = {}) {}
+
+  /**
+   * Resolve a preset, device name or viewport object
+   * Device names are matched case-insensitively, e.g. 'iphone 13' → 'iPhone 13'
+   */
+  resolve(viewport: ViewportPreset | Viewport): Viewport {
+    if (typeof viewport !== 'string') {
+      return viewport;
+    }
+
+    if (Object.prototype.hasOwnProperty.call(this.customPresets, viewport)) {
+      return { name: viewport, ...this.customPresets[viewport] };
+    }
+
+    if (Object.prototype.hasOwnProperty.call(VIEWPORT_PRESETS, viewport)) {
+      return VIEWPORT_PRESETS[viewport as BuiltinViewportPreset];
+    }
+
+    const deviceName = this.findDevice(viewport);
+    if (deviceName) {
+      const descriptor = devices[deviceName];
+      return {
+        name: deviceName,
+        width: descriptor.viewport.width,
+        height: descriptor.viewport.height,
+        deviceScaleFactor: descriptor.deviceScaleFactor,
+        isMobile: descriptor.isMobile,
+        hasTouch: descriptor.hasTouch,
+        userAgent: descriptor.userAgent,
+      };
+    }
+
+    const suggestions = this.suggest(viewport);
+    throw new Error(
+      `Unknown viewport: ${viewport}. ` +
+      (suggestions.length > 0 ? `Did you mean ${suggestions.map(s => `"${s}"`).join(', ')}? ` : '') +
+      `Use ${[...new Set([...Object.keys(this.customPresets), ...Object.keys(VIEWPORT_PRESETS)])].join(', ')}, ` +
+      'a Playwright device name such as "iPhone 13", or run `uisentinel devices` to list them.'
+    );
+  }
+
+  /**
+   * Name used in file names and reports: the preset or device name, else WIDTHxHEIGHT
+   */
+  getName(viewport: Viewport): string {
+    if (viewport.name) {
+      return viewport.name;
+    }
+
+    for (const [name, preset] of Object.entries(VIEWPORT_PRESETS)) {
+      if (preset.width === viewport.width && preset.height === viewport.height) {
+        return name;
+      }
+    }
+    return `${viewport.width}x${viewport.height}`;
+  }
+
+  /**
+   * getName() made safe for file names, e.g. 'iPhone 13 Pro' → 'iPhone-13-Pro'
+   */
+  getFileName(viewport: Viewport): string {
+    return this.getName(viewport).replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-|-$/g, '');
+  }
+
+  /**
+   * Every name resolve() accepts, optionally filtered by a case-insensitive substring
+   */
+  list(filter?: string): Array<{ name: string; source: 'custom' | 'preset' | 'device'; viewport: Viewport }> {
+    const entries = [
+      ...Object.keys(this.customPresets).map(name => ({ name, source: 'custom' as const })),
+      ...Object.keys(VIEWPORT_PRESETS).map(name => ({ name, source: 'preset' as const })),
+      ...Object.keys(devices).map(name => ({ name, source: 'device' as const })),
+    ];
+
+    return entries
+      .filter(entry => !filter || entry.name.toLowerCase().includes(filter.toLowerCase()))
+      .map(entry => ({ ...entry, viewport: this.resolve(entry.name) }));
+  }
+
+  private findDevice(name: string): string | undefined {
+    if (Object.prototype.hasOwnProperty.call(devices, name)) {
+      return name;
+    }
+    const lower = name.toLowerCase();
+    return Object.keys(devices).find(device => device.toLowerCase() === lower);
+  }
+
+  private suggest(name: string): string[] {
+    const words = name.toLowerCase().split(/[\s_-]+/).filter(Boolean);
+    return Object.keys(devices)
+      .filter(device => !device.endsWith('landscape'))
+      .filter(device => words.some(word => device.toLowerCase().includes(word)))
+      .slice(0, 3);
+  }
+}
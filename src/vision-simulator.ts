@@ -0,0 +1,347 @@
+import { Page, CDPSession } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { VisionDeficiency, VisionSimulationResult, ColorOnlySignal } from './types';
+
+type RGB = [number, number, number];
+
+/**
+ * sRGB approximations of each deficiency at full severity (Machado et al. 2009; luminance for achromatopsia)
+ * Used for the SVG filter fallback and for comparing colors in simulation
+ */
+const DEFICIENCY_MATRICES: Record<VisionDeficiency, number[]> = {
+  protanopia: [
+    0.152286, 1.052583, -0.204868,
+    0.114503, 0.786281, 0.099216,
+    -0.003882, -0.048116, 1.051998,
+  ],
+  deuteranopia: [
+    0.367322, 0.860646, -0.227968,
+    0.280085, 0.672501, 0.047413,
+    -0.011820, 0.042940, 0.968881,
+  ],
+  tritanopia: [
+    1.255528, -0.076749, -0.178779,
+    -0.078411, 0.930809, 0.147602,
+    0.004733, 0.691367, 0.303900,
+  ],
+  achromatopsia: [
+    0.299, 0.587, 0.114,
+    0.299, 0.587, 0.114,
+    0.299, 0.587, 0.114,
+  ],
+};
+
+/**
+ * Colors closer than this (Euclidean distance in sRGB, 0-441) are treated as indistinguishable
+ */
+const MIN_DISTINGUISHABLE_DISTANCE = 50;
+
+const FILTER_ID = 'uisentinel-vision-filter';
+
+interface StyledElement {
+  selector: string;
+  group: string;
+  signature: string;
+  colors: Record<ColorOnlySignal['property'], string>;
+}
+
+/**
+ * Renders a page as people with color vision deficiencies see it
+ * and finds states that are signalled by color alone (WCAG 1.4.1 Use of Color)
+ */
+export class VisionSimulator {
+  // Emulation overrides only last as long as the session that set them
+  private session: CDPSession | null = null;
+
+  constructor(private page: Page, private outputDir: string) {}
+
+  /**
+   * Screenshot the page normally and under each deficiency, then combine them into a labeled grid
+   */
+  async capture(options: {
+    deficiencies?: VisionDeficiency[];
+    fullPage?: boolean;
+    name?: string;
+  } = {}): Promise<VisionSimulationResult> {
+    const deficiencies = options.deficiencies || ['protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia'];
+    const name = options.name || `vision_${Date.now()}`;
+    const dir = path.join(this.outputDir, 'screenshots');
+    fs.mkdirSync(dir, { recursive: true });
+
+    const method = this.supportsCDP() ? 'cdp' : 'svg-filter';
+    const screenshots: VisionSimulationResult['screenshots'] = [];
+
+    const normalPath = path.join(dir, `${name}_normal.png`);
+    await this.page.screenshot({ path: normalPath, fullPage: options.fullPage ?? false });
+    screenshots.push({ deficiency: 'normal', path: normalPath });
+
+    for (const deficiency of deficiencies) {
+      await this.emulate(deficiency, method);
+      const screenshotPath = path.join(dir, `${name}_${deficiency}.png`);
+      await this.page.screenshot({ path: screenshotPath, fullPage: options.fullPage ?? false });
+      screenshots.push({ deficiency, path: screenshotPath });
+    }
+    await this.reset(method);
+
+    const gridPath = path.join(dir, `${name}_grid.png`);
+    await this.createGrid(screenshots, gridPath);
+
+    return {
+      url: this.page.url(),
+      method,
+      screenshots,
+      gridPath,
+      colorOnlySignals: await this.findColorOnlySignals(deficiencies),
+    };
+  }
+
+  /**
+   * Elements whose only visible difference from a peer is color,
+   * with the deficiencies under which the two colors become hard to tell apart
+   */
+  async findColorOnlySignals(deficiencies: VisionDeficiency[] = Object.keys(DEFICIENCY_MATRICES) as VisionDeficiency[]): Promise<ColorOnlySignal[]> {
+    const elements = await this.collectStyledElements();
+    const signals: ColorOnlySignal[] = [];
+    const properties: ColorOnlySignal['property'][] = ['border-color', 'outline-color', 'background-color', 'color'];
+
+    const groups = new Map<string, StyledElement[]>();
+    elements.forEach((el) => {
+      groups.set(el.group, [...(groups.get(el.group) || []), el]);
+    });
+
+    groups.forEach((members) => {
+      if (members.length < 2) {
+        return;
+      }
+
+      properties.forEach((property) => {
+        // The most common color is the normal state; other colors are candidate signals
+        const counts = new Map<string, number>();
+        members.forEach(m => counts.set(m.colors[property], (counts.get(m.colors[property]) || 0) + 1));
+        const [normalColor] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+        const normalRgb = this.parseColor(normalColor);
+        if (!normalRgb) {
+          return;
+        }
+
+        members
+          .filter(m => m.colors[property] !== normalColor && !signals.some(s => s.selector === m.selector))
+          .forEach((member) => {
+            const rgb = this.parseColor(member.colors[property]);
+            const peer = members.find(m => m.colors[property] === normalColor && m.signature === member.signature);
+            if (!rgb || !peer || this.distance(rgb, normalRgb) < MIN_DISTINGUISHABLE_DISTANCE) {
+              return;
+            }
+
+            const indistinguishableUnder = deficiencies.filter(deficiency =>
+              this.distance(this.simulate(rgb, deficiency), this.simulate(normalRgb, deficiency)) < MIN_DISTINGUISHABLE_DISTANCE
+            );
+
+            signals.push({
+              selector: member.selector,
+              peerSelector: peer.selector,
+              property,
+              color: member.colors[property],
+              peerColor: normalColor,
+              indistinguishableUnder,
+              description: `${member.selector} differs from ${peer.selector} only by ${property} (${member.colors[property]} vs ${normalColor})` +
+                (indistinguishableUnder.length > 0 ? `; indistinguishable with ${indistinguishableUnder.join(', ')}` : ''),
+            });
+          });
+      });
+    });
+
+    return signals.sort((a, b) => b.indistinguishableUnder.length - a.indistinguishableUnder.length);
+  }
+
+  /**
+   * How a color looks with a deficiency
+   */
+  simulate(rgb: RGB, deficiency: VisionDeficiency): RGB {
+    const m = DEFICIENCY_MATRICES[deficiency];
+    const clamp = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+    return [
+      clamp(m[0] * rgb[0] + m[1] * rgb[1] + m[2] * rgb[2]),
+      clamp(m[3] * rgb[0] + m[4] * rgb[1] + m[5] * rgb[2]),
+      clamp(m[6] * rgb[0] + m[7] * rgb[1] + m[8] * rgb[2]),
+    ];
+  }
+
+  private async emulate(deficiency: VisionDeficiency, method: VisionSimulationResult['method']): Promise<void> {
+    if (method === 'cdp') {
+      this.session = this.session || await this.page.context().newCDPSession(this.page);
+      await this.session.send('Emulation.setEmulatedVisionDeficiency', { type: deficiency });
+      return;
+    }
+
+    const values = [...DEFICIENCY_MATRICES[deficiency].slice(0, 3), 0, 0,
+      ...DEFICIENCY_MATRICES[deficiency].slice(3, 6), 0, 0,
+      ...DEFICIENCY_MATRICES[deficiency].slice(6, 9), 0, 0,
+      0, 0, 0, 1, 0].join(' ');
+
+    await this.page.evaluate(({ id, matrix }) => {
+      document.getElementById(id)?.remove();
+      const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+      svg.setAttribute('id', id);
+      svg.setAttribute('style', 'position:absolute;width:0;height:0');
+      svg.innerHTML = `<filter id="${id}-filter" color-interpolation-filters="sRGB"><feColorMatrix type="matrix" values="${matrix}"/></filter>`;
+      document.body.appendChild(svg);
+      document.documentElement.style.filter = `url(#${id}-filter)`;
+    }, { id: FILTER_ID, matrix: values });
+  }
+
+  private async reset(method: VisionSimulationResult['method']): Promise<void> {
+    if (method === 'cdp') {
+      if (this.session) {
+        await this.session.send('Emulation.setEmulatedVisionDeficiency', { type: 'none' });
+        await this.session.detach();
+        this.session = null;
+      }
+      return;
+    }
+
+    await this.page.evaluate((id) => {
+      document.getElementById(id)?.remove();
+      document.documentElement.style.filter = '';
+    }, FILTER_ID);
+  }
+
+  /**
+   * Lay screenshots out in a grid, three per row, each under its label
+   */
+  private async createGrid(screenshots: VisionSimulationResult['screenshots'], outputPath: string): Promise<void> {
+    const cellWidth = 480;
+    const labelHeight = 32;
+    const columns = Math.min(3, screenshots.length);
+
+    const cells = await Promise.all(screenshots.map(async ({ deficiency, path: imagePath }) => {
+      const { data, info } = await sharp(imagePath)
+        .resize({ width: cellWidth, height: 1200, fit: 'inside', withoutEnlargement: true })
+        .png()
+        .toBuffer({ resolveWithObject: true });
+      return { deficiency, data, height: info.height };
+    }));
+
+    const rowHeight = Math.max(...cells.map(c => c.height)) + labelHeight;
+    const rows = Math.ceil(cells.length / columns);
+    const composites: sharp.OverlayOptions[] = [];
+
+    cells.forEach((cell, index) => {
+      const left = (index % columns) * cellWidth;
+      const top = Math.floor(index / columns) * rowHeight;
+      const label = cell.deficiency.charAt(0).toUpperCase() + cell.deficiency.slice(1);
+      composites.push({
+        input: Buffer.from(
+          `<svg width="${cellWidth}" height="${labelHeight}"><rect width="100%" height="100%" fill="#24292f"/>` +
+          `<text x="12" y="21" font-family="sans-serif" font-size="15" fill="#ffffff">${label}</text></svg>`
+        ),
+        left,
+        top,
+      });
+      composites.push({ input: cell.data, left, top: top + labelHeight });
+    });
+
+    await sharp({
+      create: {
+        width: columns * cellWidth,
+        height: rows * rowHeight,
+        channels: 3,
+        background: { r: 255, g: 255, b: 255 },
+      },
+    })
+      .composite(composites)
+      .png()
+      .toFile(outputPath);
+  }
+
+  /**
+   * Visible elements grouped with peers of the same kind, with their colors
+   * and a signature of everything else that could distinguish them
+   */
+  private async collectStyledElements(): Promise<StyledElement[]> {
+    return this.page.evaluate(() => {
+      const selectorFor = (el: Element): string => {
+        if (el.id && document.querySelectorAll(`#${CSS.escape(el.id)}`).length === 1) {
+          return `#${CSS.escape(el.id)}`;
+        }
+        const path: string[] = [];
+        let current: Element | null = el;
+        while (current && current !== document.body && current !== document.documentElement) {
+          const tag = current.tagName.toLowerCase();
+          const parent: Element | null = current.parentElement;
+          const siblings = parent ? Array.from(parent.children).filter(c => c.tagName === current.tagName) : [];
+          path.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(current) + 1})` : tag);
+          current = parent;
+        }
+        return ['body', ...path].join(' > ');
+      };
+
+      const formControls = ['INPUT', 'SELECT', 'TEXTAREA', 'BUTTON'];
+      const elements: Array<{
+        selector: string;
+        group: string;
+        signature: string;
+        colors: Record<'color' | 'background-color' | 'border-color' | 'outline-color', string>;
+      }> = [];
+
+      document.querySelectorAll('body *').forEach((el) => {
+        const rect = el.getBoundingClientRect();
+        const style = getComputedStyle(el);
+        if (rect.width === 0 || rect.height === 0 || style.visibility === 'hidden' || style.display === 'none') {
+          return;
+        }
+
+        // Form controls group by kind; anything else needs a class to have peers
+        const firstClass = el.classList[0];
+        const group = formControls.includes(el.tagName)
+          ? `${el.tagName}:${el.getAttribute('type') || ''}`
+          : firstClass ? `${el.tagName}.${firstClass}` : '';
+        if (!group) {
+          return;
+        }
+
+        // An extra text element next to it, e.g. an error message under an input, is a non-color cue
+        const textSiblings = Array.from(el.parentElement?.children || []).filter(sibling =>
+          sibling !== el && ((sibling as HTMLElement).innerText || '').trim().length > 0
+        ).length;
+
+        elements.push({
+          selector: selectorFor(el),
+          group,
+          signature: [
+            style.borderTopWidth, style.borderTopStyle, style.outlineStyle, style.fontWeight,
+            style.textDecorationLine, style.backgroundImage,
+            getComputedStyle(el, '::before').content, getComputedStyle(el, '::after').content,
+            ((el as HTMLElement).innerText || '').trim().slice(0, 200), textSiblings,
+          ].join('|'),
+          colors: {
+            'color': style.color,
+            'background-color': style.backgroundColor,
+            'border-color': style.borderTopStyle === 'none' ? 'none' : style.borderTopColor,
+            'outline-color': style.outlineStyle === 'none' ? 'none' : style.outlineColor,
+          },
+        });
+      });
+
+      return elements.slice(0, 2000);
+    });
+  }
+
+  private parseColor(color: string): RGB | null {
+    const match = color.match(/^rgba?\(\s*(\d+(?:\.\d+)?)[,\s]+(\d+(?:\.\d+)?)[,\s]+(\d+(?:\.\d+)?)(?:\s*[,/]\s*([\d.]+))?\s*\)$/);
+    if (!match || (match[4] !== undefined && parseFloat(match[4]) === 0)) {
+      return null;
+    }
+    return [parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3])];
+  }
+
+  private distance(a: RGB, b: RGB): number {
+    return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+  }
+
+  private supportsCDP(): boolean {
+    return this.page.context().browser()?.browserType().name() === 'chromium';
+  }
+}
@@ -1,9 +1,18 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import pixelmatch from 'pixelmatch';
 import { PNG } from 'pngjs';
-import sharp from 'sharp';
-import { VisualDiffResult } from './types';
+import {
+  VisualDiffResult,
+  VisualDiffOptions,
+  BaselineMetadata,
+  BrowserName,
+  LayoutAnalysis,
+  IgnoreRegion,
+  Region,
+  RGBColor,
+} from './types';
 
 /**
  * Compares images for visual regression testing
@@ -17,12 +26,17 @@ export class VisualDiff {
 
   /**
    * Compare two images and generate a diff
+   * @param threshold - Maximum differing pixels in percent, or full comparison options
    */
   async compare(
     baselinePath: string,
     currentPath: string,
-    threshold: number = 0.1
+    threshold: number | VisualDiffOptions = 0.1
   ): Promise<VisualDiffResult> {
+    const options: VisualDiffOptions = typeof threshold === 'number' ? { threshold } : threshold;
+    const maxDiffPercentage = options.threshold ?? 0.1;
+    const dimensionPolicy = options.dimensionPolicy || 'pad';
+
     // Ensure both images exist
     if (!fs.existsSync(baselinePath)) {
       throw new Error(`Baseline image not found: ${baselinePath}`);
@@ -32,29 +46,74 @@ export class VisualDiff {
     }
 
     // Load images
-    const baseline = PNG.sync.read(fs.readFileSync(baselinePath));
-    const current = PNG.sync.read(fs.readFileSync(currentPath));
+    let baseline: PNG = PNG.sync.read(fs.readFileSync(baselinePath));
+    let current: PNG = PNG.sync.read(fs.readFileSync(currentPath));
 
-    // Resize if dimensions don't match
+    // Reconcile dimensions according to the policy instead of distorting either image
+    let dimensionMismatch: VisualDiffResult['dimensionMismatch'];
     if (baseline.width !== current.width || baseline.height !== current.height) {
-      const resized = await this.resizeToMatch(currentPath, baseline.width, baseline.height);
-      return this.compare(baselinePath, resized, threshold);
+      dimensionMismatch = {
+        policy: dimensionPolicy,
+        baseline: { width: baseline.width, height: baseline.height },
+        current: { width: current.width, height: current.height },
+      };
+
+      if (dimensionPolicy === 'fail') {
+        const totalPixels = Math.max(baseline.width, current.width) * Math.max(baseline.height, current.height);
+        return {
+          diffPath: '',
+          diffPixels: totalPixels,
+          diffPercentage: 100,
+          totalPixels,
+          passed: false,
+          threshold: maxDiffPercentage,
+          dimensionMismatch,
+        };
+      }
+
+      const [width, height] = dimensionPolicy === 'crop'
+        ? [Math.min(baseline.width, current.width), Math.min(baseline.height, current.height)]
+        : [Math.max(baseline.width, current.width), Math.max(baseline.height, current.height)];
+
+      baseline = this.fitToCanvas(baseline, width, height);
+      current = this.fitToCanvas(current, width, height);
     }
 
     // Create diff image
     const { width, height } = baseline;
     const diff = new PNG({ width, height });
 
-    // Compare pixels
+    // Blank out ignored regions in both images so they can never differ
+    const masks = (options.masks || [])
+      .map((mask) => this.clipRegion(mask, width, height))
+      .filter((mask): mask is IgnoreRegion => mask !== null);
+    masks.forEach((mask) => {
+      this.paintRegion(baseline, mask, [0, 0, 0], 1);
+      this.paintRegion(current, mask, [0, 0, 0], 1);
+    });
+
+    // Compare pixels (unset options keep pixelmatch's defaults)
+    const matchOptions: pixelmatch.PixelmatchOptions = {
+      threshold: options.pixelThreshold ?? 0.1,
+      includeAA: options.includeAA ?? false,
+    };
+    if (options.alpha !== undefined) matchOptions.alpha = options.alpha;
+    if (options.diffColor) matchOptions.diffColor = options.diffColor;
+    if (options.diffColorAlt) matchOptions.diffColorAlt = options.diffColorAlt;
+    if (options.aaColor) matchOptions.aaColor = options.aaColor;
+
     const diffPixels = pixelmatch(
       baseline.data,
       current.data,
       diff.data,
       width,
       height,
-      { threshold: 0.1 }
+      matchOptions
     );
 
+    // Draw masked areas distinctly so they are not mistaken for unchanged content
+    masks.forEach((mask) => this.paintRegion(diff, mask, options.maskColor || [0, 120, 255], 0.5));
+
     // Save diff image
     const diffPath = path.join(
       this.outputDir,
@@ -66,7 +125,7 @@ export class VisualDiff {
 
     const totalPixels = width * height;
     const diffPercentage = (diffPixels / totalPixels) * 100;
-    const passed = diffPercentage <= threshold;
+    const passed = diffPercentage <= maxDiffPercentage;
 
     return {
       diffPath,
@@ -74,39 +133,189 @@ export class VisualDiff {
       diffPercentage: parseFloat(diffPercentage.toFixed(2)),
       totalPixels,
       passed,
-      threshold,
+      threshold: maxDiffPercentage,
+      masks: masks.length > 0 ? masks : undefined,
+      dimensionMismatch,
     };
   }
 
   /**
-   * Resize an image to match target dimensions
+   * Clip a region to the image bounds, or null if it falls outside
    */
-  private async resizeToMatch(imagePath: string, width: number, height: number): Promise<string> {
-    const resizedPath = path.join(
-      this.outputDir,
-      'temp',
-      `resized_${Date.now()}.png`
-    );
-    
-    fs.mkdirSync(path.dirname(resizedPath), { recursive: true });
+  private clipRegion(region: IgnoreRegion, width: number, height: number): IgnoreRegion | null {
+    const x = Math.max(0, Math.floor(region.x));
+    const y = Math.max(0, Math.floor(region.y));
+    const right = Math.min(width, Math.ceil(region.x + region.width));
+    const bottom = Math.min(height, Math.ceil(region.y + region.height));
 
-    await sharp(imagePath)
-      .resize(width, height, { fit: 'fill' })
-      .toFile(resizedPath);
+    if (right <= x || bottom <= y) {
+      return null;
+    }
+    return { ...region, x, y, width: right - x, height: bottom - y };
+  }
 
-    return resizedPath;
+  /**
+   * Blend a color over a region of an image
+   */
+  private paintRegion(image: PNG, region: Region, color: RGBColor, opacity: number): void {
+    for (let y = region.y; y < region.y + region.height; y++) {
+      for (let x = region.x; x < region.x + region.width; x++) {
+        const idx = (y * image.width + x) * 4;
+        image.data[idx] = Math.round(image.data[idx] * (1 - opacity) + color[0] * opacity);
+        image.data[idx + 1] = Math.round(image.data[idx + 1] * (1 - opacity) + color[1] * opacity);
+        image.data[idx + 2] = Math.round(image.data[idx + 2] * (1 - opacity) + color[2] * opacity);
+        image.data[idx + 3] = 255;
+      }
+    }
+  }
+
+  /**
+   * Place an image at the top-left of a canvas of the given size
+   * Padding is opaque magenta so padded areas always count as differences
+   * (pixelmatch blends transparent pixels onto white); larger images are cropped
+   */
+  private fitToCanvas(image: PNG, width: number, height: number): PNG {
+    if (image.width === width && image.height === height) {
+      return image;
+    }
+
+    const canvas = new PNG({ width, height });
+    for (let i = 0; i < canvas.data.length; i += 4) {
+      canvas.data[i] = 255;
+      canvas.data[i + 1] = 0;
+      canvas.data[i + 2] = 255;
+      canvas.data[i + 3] = 255;
+    }
+    PNG.bitblt(
+      image,
+      canvas,
+      0,
+      0,
+      Math.min(image.width, width),
+      Math.min(image.height, height),
+      0,
+      0
+    );
+    return canvas;
   }
 
   /**
    * Create a baseline from a current screenshot
    */
   async createBaseline(currentPath: string, name: string): Promise<string> {
-    const baselinePath = path.join(this.outputDir, 'baselines', `${name}.png`);
+    const baselinePath = this.getBaselinePath(name);
     fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
     fs.copyFileSync(currentPath, baselinePath);
     return baselinePath;
   }
 
+  /**
+   * Save a baseline along with its route/viewport metadata and layout snapshot
+   */
+  async saveBaseline(
+    currentPath: string,
+    metadata: Omit<BaselineMetadata, 'name' | 'width' | 'height' | 'createdAt'> & { name?: string },
+    layout?: LayoutAnalysis
+  ): Promise<BaselineMetadata> {
+    const name = metadata.name ||
+      this.getBaselineName(metadata.route || '/', metadata.viewport || 'desktop', metadata.browser, metadata.theme);
+    await this.createBaseline(currentPath, name);
+    this.writeLayout(this.getLayoutPath(name), layout);
+
+    const image = PNG.sync.read(fs.readFileSync(currentPath));
+    const saved: BaselineMetadata = {
+      ...metadata,
+      name,
+      width: image.width,
+      height: image.height,
+      createdAt: new Date().toISOString(),
+    };
+    fs.writeFileSync(this.getMetadataPath(name), JSON.stringify(saved, null, 2));
+
+    return saved;
+  }
+
+  /**
+   * Keep the latest capture for a baseline so it can be approved later
+   */
+  saveCurrent(currentPath: string, name: string, layout?: LayoutAnalysis): string {
+    const pendingPath = path.join(this.outputDir, 'current', `${name}.png`);
+    fs.mkdirSync(path.dirname(pendingPath), { recursive: true });
+    fs.copyFileSync(currentPath, pendingPath);
+    this.writeLayout(path.join(this.outputDir, 'current', `${name}.layout.json`), layout);
+    return pendingPath;
+  }
+
+  /**
+   * Promote the latest capture of a baseline to be the new baseline
+   */
+  async approveBaseline(name: string): Promise<BaselineMetadata> {
+    const pendingPath = path.join(this.outputDir, 'current', `${name}.png`);
+    if (!fs.existsSync(pendingPath)) {
+      throw new Error(`No capture to approve for baseline: ${name}`);
+    }
+
+    const previous = this.getBaselineMetadata(name);
+    let [route, viewport, browser, theme] = previous
+      ? [previous.route, previous.viewport, previous.browser, previous.theme]
+      : name.split('__');
+    if (!previous && browser && !['firefox', 'webkit'].includes(browser)) {
+      // Chromium baselines have no browser segment, so this is the theme
+      [browser, theme] = [undefined, browser];
+    }
+
+    const pendingLayoutPath = path.join(this.outputDir, 'current', `${name}.layout.json`);
+    const layout = this.readLayout(pendingLayoutPath);
+
+    // Without metadata the route is only known as its slug, so keep the pending name
+    const saved = await this.saveBaseline(pendingPath, {
+      name: previous ? undefined : name,
+      route: route || '/',
+      viewport,
+      browser: browser as BrowserName,
+      theme,
+      url: previous?.url,
+      masks: previous?.masks,
+    }, layout || undefined);
+    fs.unlinkSync(pendingPath);
+    if (layout) {
+      fs.unlinkSync(pendingLayoutPath);
+    }
+
+    return saved;
+  }
+
+  /**
+   * Names of baselines with a capture waiting for approval
+   */
+  getPendingApprovals(): string[] {
+    const pendingDir = path.join(this.outputDir, 'current');
+    if (!fs.existsSync(pendingDir)) {
+      return [];
+    }
+    return fs.readdirSync(pendingDir)
+      .filter(f => f.endsWith('.png'))
+      .map(f => f.replace(/\.png$/, ''));
+  }
+
+  /**
+   * Delete a baseline, its metadata and its layout snapshot
+   */
+  deleteBaseline(name: string): boolean {
+    const baselinePath = this.getBaselinePath(name);
+    if (!fs.existsSync(baselinePath)) {
+      return false;
+    }
+
+    fs.unlinkSync(baselinePath);
+    [this.getMetadataPath(name), this.getLayoutPath(name)].forEach((file) => {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    });
+    return true;
+  }
+
   /**
    * Get all baselines
    */
@@ -119,4 +328,120 @@ export class VisualDiff {
       .filter(f => f.endsWith('.png'))
       .map(f => path.join(baselineDir, f));
   }
+
+  /**
+   * Get metadata for all baselines
+   */
+  listBaselines(): BaselineMetadata[] {
+    return this.getBaselines().map((baselinePath) => {
+      const name = path.basename(baselinePath, '.png');
+      return this.getBaselineMetadata(name) || this.describeLegacyBaseline(baselinePath, name);
+    });
+  }
+
+  /**
+   * Get metadata for a single baseline
+   */
+  getBaselineMetadata(name: string): BaselineMetadata | null {
+    const metadataPath = this.getMetadataPath(name);
+    if (!fs.existsSync(metadataPath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+  }
+
+  /**
+   * Get the layout snapshot saved with a baseline
+   */
+  getBaselineLayout(name: string): LayoutAnalysis | null {
+    return this.readLayout(this.getLayoutPath(name));
+  }
+
+  /**
+   * Check whether a baseline exists
+   */
+  hasBaseline(name: string): boolean {
+    return fs.existsSync(this.getBaselinePath(name));
+  }
+
+  /**
+   * Get the image path of a baseline
+   */
+  getBaselinePath(name: string): string {
+    return path.join(this.outputDir, 'baselines', `${name}.png`);
+  }
+
+  /**
+   * Build the baseline key for a route/viewport pair
+   * e.g. ('/about/team', 'mobile') → 'about_team__mobile'
+   * Routes the slug cannot tell apart (query strings, case, '_' vs '/') get a short hash of the route,
+   * e.g. ('/search?q=shoes', 'mobile') → 'search.432d4b81__mobile'
+   * Browsers other than chromium get their own baselines, e.g. 'about_team__mobile__webkit'
+   * So do emulated themes, e.g. 'about_team__mobile__dark'
+   */
+  getBaselineName(route: string, viewport: string, browser?: BrowserName, theme?: string): string {
+    let pathname = route;
+    let key = route;
+    try {
+      const parsed = new URL(route, 'http://localhost');
+      pathname = parsed.pathname;
+      key = parsed.pathname + parsed.search + parsed.hash;
+    } catch {
+      // Use the route as-is
+    }
+
+    const slug = pathname
+      .replace(/^\/|\/$/g, '')
+      .replace(/\//g, '_')
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]/g, '_') || 'home';
+
+    // Only a slug that maps back to exactly this route is used bare
+    const readable = slug === 'home' ? '/' : `/${slug.replace(/_/g, '/')}`;
+    const routeName = readable === key ? slug : `${slug}.${createHash('sha1').update(key).digest('hex').slice(0, 8)}`;
+
+    const name = `${routeName}__${viewport.toLowerCase().replace(/[^a-z0-9_-]/g, '_')}`;
+    return [
+      name,
+      ...(browser && browser !== 'chromium' ? [browser] : []),
+      ...(theme ? [theme.toLowerCase().replace(/[^a-z0-9_-]/g, '_')] : []),
+    ].join('__');
+  }
+
+  private getMetadataPath(name: string): string {
+    return path.join(this.outputDir, 'baselines', `${name}.json`);
+  }
+
+  private getLayoutPath(name: string): string {
+    return path.join(this.outputDir, 'baselines', `${name}.layout.json`);
+  }
+
+  private writeLayout(layoutPath: string, layout?: LayoutAnalysis): void {
+    if (layout) {
+      fs.writeFileSync(layoutPath, JSON.stringify(layout));
+    } else if (fs.existsSync(layoutPath)) {
+      // Never compare against a snapshot from an older capture
+      fs.unlinkSync(layoutPath);
+    }
+  }
+
+  private readLayout(layoutPath: string): LayoutAnalysis | null {
+    if (!fs.existsSync(layoutPath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(layoutPath, 'utf-8'));
+  }
+
+  /**
+   * Describe a baseline created before metadata was recorded
+   */
+  private describeLegacyBaseline(baselinePath: string, name: string): BaselineMetadata {
+    const image = PNG.sync.read(fs.readFileSync(baselinePath));
+    return {
+      name,
+      width: image.width,
+      height: image.height,
+      createdAt: fs.statSync(baselinePath).mtime.toISOString(),
+    };
+  }
 }
@@ -0,0 +1,46 @@
+/**
+ * Unit Tests for BrowserEngine helpers that need no browser
+ *
+ * Requires a build first: npm run build
+ */
+
+const { test, expect } = require('@playwright/test');
+const os = require('os');
+const path = require('path');
+const { BrowserEngine } = require('../dist/browser-engine');
+
+function engineWithCookies(cookies) {
+  const engine = new BrowserEngine(path.join(os.tmpdir(), 'uisentinel-browser-engine-spec'));
+  engine.setAuth({ cookies });
+  return engine;
+}
+
+test.describe('BrowserEngine auth cookies', () => {
+
+  test('should default a bare cookie to the captured origin', async () => {
+    const cookies = engineWithCookies([{ name: 'session', value: 'abc' }]).getAuthCookies('http://localhost:3000/about');
+
+    expect(cookies).toEqual([{ name: 'session', value: 'abc', url: 'http://localhost:3000' }]);
+  });
+
+  test('should scope a domain-less cookie with a path by host instead of url', async () => {
+    const cookies = engineWithCookies([{ name: 'session', value: 'abc', path: '/app' }]).getAuthCookies('https://example.com/app/home');
+
+    expect(cookies).toEqual([{ name: 'session', value: 'abc', path: '/app', domain: 'example.com', secure: true }]);
+    expect(cookies[0].url).toBeUndefined();
+  });
+
+  test('should use the cookie url host when it has a path too', async () => {
+    const cookies = engineWithCookies([
+      { name: 'session', value: 'abc', url: 'http://api.localhost:4000', path: '/v1', secure: false },
+    ]).getAuthCookies('http://localhost:3000/');
+
+    expect(cookies).toEqual([{ name: 'session', value: 'abc', path: '/v1', domain: 'api.localhost', secure: false }]);
+  });
+
+  test('should default the path of a cookie with a domain', async () => {
+    const cookies = engineWithCookies([{ name: 'session', value: 'abc', domain: '.example.com' }]).getAuthCookies('https://example.com/');
+
+    expect(cookies).toEqual([{ name: 'session', value: 'abc', domain: '.example.com', path: '/' }]);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Unit Tests for CIReporter
+ *
+ * tests/fixtures/reports/results.json holds three validation results: a page
+ * with accessibility, contrast and runtime findings, a page that failed its
+ * visual diff, and a page that could not be captured.
+ * Requires a build first: npm run build
+ */
+
+const { test, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs');
+const { CIReporter } = require('../dist/ci-reporter');
+const { version } = require('../package.json');
+
+const results = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'reports', 'results.json'), 'utf-8'));
+
+function suite(xml, name) {
+  const start = xml.indexOf(`<testsuite name="${name}"`);
+  return xml.slice(start, xml.indexOf('</testsuite>', start));
+}
+
+test.describe('CIReporter', () => {
+
+  test.describe('toJUnit', () => {
+
+    test('should count tests, failures and errors over all suites', () => {
+      const xml = new CIReporter().toJUnit(results);
+
+      expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n')).toBe(true);
+      expect(xml).toContain('<testsuites name="uisentinel" tests="8" failures="4" errors="1">');
+      expect(xml.match(/<testsuite /g)).toHaveLength(3);
+    });
+
+    test('should add one testcase per check that ran', () => {
+      const xml = new CIReporter().toJUnit(results);
+      const home = suite(xml, '/ (mobile, chromium)');
+
+      expect(home).toContain('tests="4" failures="3" errors="0"');
+      expect(home).toContain('<property name="url" value="http://localhost:3000/"/>');
+      expect(home).toContain('<testcase classname="/ (mobile, chromium)" name="capture" time="0"/>');
+      expect(home).toContain('<failure message="1 accessibility violation (WCAG21AA)" type="accessibility">');
+      expect(home).toContain('[critical] image-alt: Images must have alternate text - .hero img, header img');
+      expect(home).toContain('<failure message="1 element below WCAG AA contrast" type="contrast">');
+      expect(home).toContain('<failure message="1 uncaught exception, 1 console error" type="runtime">');
+    });
+
+    test('should escape XML in messages', () => {
+      const xml = new CIReporter().toJUnit(results);
+
+      expect(xml).toContain('Console error: Failed to load &lt;script&gt; &amp; styles');
+      expect(xml).not.toContain('<script>');
+    });
+
+    test('should report a failed visual diff with its layout changes', () => {
+      const about = suite(new CIReporter().toJUnit(results), '/about (desktop, chromium)');
+
+      expect(about).toContain('tests="3" failures="1" errors="0"');
+      expect(about).toContain('<testcase classname="/about (desktop, chromium)" name="accessibility" time="0"/>');
+      expect(about).toContain('<failure message="2% of pixels differ (threshold 0.1%)" type="visual-diff">');
+      expect(about).toContain('body &gt; main moved 40px down\nDiff: uisentinel-output/diffs/diff_1736935205000.png');
+    });
+
+    test('should report a page that could not be captured as an error', () => {
+      const checkout = suite(new CIReporter().toJUnit(results), '/checkout (desktop, chromium)');
+
+      expect(checkout).toContain('tests="1" failures="0" errors="1"');
+      expect(checkout).toContain('<error message="net::ERR_CONNECTION_REFUSED at http://localhost:3000/checkout" type="capture"/>');
+    });
+
+    test('should write an empty report for no results', () => {
+      expect(new CIReporter().toJUnit([])).toBe(
+        '<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="uisentinel" tests="0" failures="0" errors="0">\n</testsuites>\n'
+      );
+    });
+  });
+
+  test.describe('toSARIF', () => {
+
+    test('should describe the tool with the package version', () => {
+      const sarif = new CIReporter().toSARIF(results);
+      const { driver } = sarif.runs[0].tool;
+
+      expect(sarif.version).toBe('2.1.0');
+      expect(driver.name).toBe('uisentinel');
+      expect(driver.version).toBe(version);
+      expect(new CIReporter('9.9.9').toSARIF([]).runs[0].tool.driver.version).toBe('9.9.9');
+    });
+
+    test('should add one rule per kind of finding', () => {
+      const { driver } = new CIReporter().toSARIF(results).runs[0].tool;
+
+      expect(driver.rules.map(rule => rule.id)).toEqual([
+        'axe/image-alt',
+        'uisentinel/color-contrast',
+        'uisentinel/page-error',
+        'uisentinel/console-error',
+        'uisentinel/visual-regression',
+      ]);
+      expect(driver.rules[0].helpUri).toBe('https://dequeuniversity.com/rules/axe/4.8/image-alt');
+    });
+
+    test('should map impact and severity to levels', () => {
+      const sarifResults = new CIReporter().toSARIF(results).runs[0].results;
+
+      expect(sarifResults.map(result => [result.ruleId, result.level])).toEqual([
+        ['axe/image-alt', 'error'],
+        ['uisentinel/color-contrast', 'warning'],
+        ['uisentinel/page-error', 'error'],
+        ['uisentinel/console-error', 'warning'],
+        ['uisentinel/visual-regression', 'error'],
+      ]);
+    });
+
+    test('should use logical locations for the page and its elements', () => {
+      const [axeResult, , , consoleResult, visualResult] = new CIReporter().toSARIF(results).runs[0].results;
+
+      expect(axeResult.locations).toEqual([
+        {
+          physicalLocation: { artifactLocation: { uri: 'uisentinel-output/screenshots/home_mobile_chromium_1736935200000.png' } },
+          logicalLocations: [
+            { fullyQualifiedName: 'http://localhost:3000/', kind: 'resource' },
+            { fullyQualifiedName: '.hero img', kind: 'element' },
+          ],
+          message: { text: 'Element does not have an alt attribute' },
+        },
+        {
+          physicalLocation: { artifactLocation: { uri: 'uisentinel-output/screenshots/home_mobile_chromium_1736935200000.png' } },
+          logicalLocations: [
+            { fullyQualifiedName: 'http://localhost:3000/', kind: 'resource' },
+            { fullyQualifiedName: 'header img', kind: 'element' },
+          ],
+          message: { text: 'Element does not have an alt attribute' },
+        },
+      ]);
+      expect(consoleResult.locations[0].message.text).toBe('http://localhost:3000/app.js:12');
+      expect(visualResult.locations[0].logicalLocations[1]).toEqual({ fullyQualifiedName: 'body > main', kind: 'element' });
+    });
+
+    test('should give every result a physical location for code scanning', () => {
+      const sarifResults = new CIReporter().toSARIF(results).runs[0].results;
+      const locations = sarifResults.flatMap(result => result.locations);
+
+      expect(locations.length).toBeGreaterThan(0);
+      locations.forEach((location) => {
+        expect(location.physicalLocation.artifactLocation.uri).toMatch(/^[^/]/);
+      });
+    });
+
+    test('should point scenario results at the scenario file, and others without a screenshot at the config', () => {
+      const fromScenario = { ...results[1], scenario: 'About page', scenarioSource: 'scenarios/about.yml' };
+      const notCaptured = { ...results[0], screenshots: [] };
+      const [scenarioResult] = new CIReporter().toSARIF([fromScenario]).runs[0].results;
+      const [pageResult] = new CIReporter().toSARIF([notCaptured]).runs[0].results;
+
+      expect(scenarioResult.locations[0].physicalLocation.artifactLocation.uri).toBe('scenarios/about.yml');
+      expect(pageResult.locations[0].physicalLocation.artifactLocation.uri).toBe('uisentinel.config.js');
+    });
+
+    test('should keep the result context in properties', () => {
+      const [axeResult, , , , visualResult] = new CIReporter().toSARIF(results).runs[0].results;
+
+      expect(axeResult.message.text).toBe('Images must have alternate text (2 elements on / (mobile, chromium))');
+      expect(axeResult.properties).toEqual({
+        url: 'http://localhost:3000/',
+        route: '/',
+        viewport: 'mobile',
+        browser: 'chromium',
+        impact: 'critical',
+      });
+      expect(visualResult.properties.diffPath).toBe('uisentinel-output/diffs/diff_1736935205000.png');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Tests for the uisentinel CLI
+ *
+ * Runs the built CLI on commands that need no browser, with global options
+ * placed before the command as documented.
+ * Requires a build first: npm run build
+ */
+
+const { test, expect } = require('@playwright/test');
+const path = require('path');
+const { spawnSync } = require('child_process');
+
+const cli = path.join(__dirname, '..', 'dist', 'cli.js');
+const remix = path.join(__dirname, 'fixtures', 'frameworks', 'remix');
+
+function run(...args) {
+  const result = spawnSync(process.execPath, [cli, ...args], { encoding: 'utf-8', timeout: 30000 });
+  return { status: result.status, output: result.stdout + result.stderr };
+}
+
+test.describe('CLI global options', () => {
+
+  test('should run the command after a repeated --cookie', () => {
+    const { status, output } = run('--cookie', 'session=abc', '--cookie', 'theme=dark', 'detect-project', '-p', remix);
+
+    expect(status).toBe(0);
+    expect(output).toContain('Framework: remix');
+  });
+
+  test('should run the command after a repeated --header', () => {
+    const { status, output } = run('--header', 'X-Preview-Token: abc', '--header', 'X-Team: web', 'devices', 'iphone 13');
+
+    expect(status).toBe(0);
+    expect(output).toContain('iPhone 13');
+  });
+
+  test('should parse each --cookie value before the command', () => {
+    const { status, output } = run('--cookie', 'session=abc', '--cookie', 'broken', 'detect-project', '-p', remix);
+
+    expect(status).toBe(1);
+    expect(output).toContain('Invalid cookie "broken". Use "name=value".');
+  });
+
+  test('should accept several browsers on commands that open none', () => {
+    const { status, output } = run('--browser', 'firefox,webkit', 'devices', 'pixel 7');
+
+    expect(status).toBe(0);
+    expect(output).toContain('Pixel 7');
+    expect(output).not.toContain('runs in one browser');
+  });
+});
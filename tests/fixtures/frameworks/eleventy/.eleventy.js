@@ -0,0 +1 @@
+module.exports = function () { return { dir: { input: 'src' } }; };
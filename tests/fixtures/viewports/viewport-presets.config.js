@@ -0,0 +1,8 @@
+module.exports = {
+  viewportPresets: {
+    kiosk: { width: 1080, height: 1920 },
+    'small-android': { width: 360, height: 640, deviceScaleFactor: 3, isMobile: true, hasTouch: true },
+    tablet: { width: 800, height: 1280, deviceScaleFactor: 2, isMobile: true },
+  },
+  viewports: ['kiosk', 'iPhone 13', 'desktop'],
+};
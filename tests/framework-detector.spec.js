@@ -0,0 +1,130 @@
+/**
+ * Unit Tests for FrameworkDetector
+ *
+ * Each fixture in tests/fixtures/frameworks is a minimal project
+ * (package.json plus the framework's config file).
+ * Requires a build first: npm run build
+ */
+
+const { test, expect } = require('@playwright/test');
+const path = require('path');
+const { FrameworkDetector } = require('../dist/framework-detector');
+
+const fixtures = path.join(__dirname, 'fixtures', 'frameworks');
+
+function detect(fixture) {
+  return new FrameworkDetector(path.join(fixtures, fixture)).detect();
+}
+
+test.describe('FrameworkDetector', () => {
+
+  test('should detect classic Remix', async () => {
+    const result = await detect('remix');
+
+    expect(result.framework).toBe('remix');
+    expect(result.confidence).toBe(100);
+    expect(result.command).toBe('remix dev');
+    expect(result.port).toBe(3000);
+    expect(result.configFile).toBe('remix.config.js');
+    expect(result.readyPattern.test('[remix-serve] http://localhost:3000 (http://192.168.1.2:3000)')).toBe(true);
+  });
+
+  test('should detect Remix on Vite before plain Vite', async () => {
+    const result = await detect('remix-vite');
+
+    expect(result.framework).toBe('remix');
+    expect(result.command).toBe('remix vite:dev');
+    expect(result.port).toBe(5173);
+    expect(result.configFile).toBe('vite.config.ts');
+    expect(result.readyPattern.test('  ➜  Local:   http://localhost:5173/')).toBe(true);
+  });
+
+  test('should detect Nuxt', async () => {
+    const result = await detect('nuxt');
+
+    expect(result.framework).toBe('nuxt');
+    expect(result.command).toBe('nuxt dev');
+    expect(result.port).toBe(3000);
+    expect(result.configFile).toBe('nuxt.config.ts');
+    expect(result.readyPattern.test('  ➜ Local:    http://localhost:3000/')).toBe(true);
+  });
+
+  test('should detect Gatsby and prefer the develop script', async () => {
+    const result = await detect('gatsby');
+
+    expect(result.framework).toBe('gatsby');
+    expect(result.command).toBe('gatsby develop');
+    expect(result.port).toBe(8000);
+    expect(result.configFile).toBe('gatsby-config.js');
+    expect(result.readyPattern.test('You can now view fixture-gatsby in the browser.')).toBe(true);
+  });
+
+  test('should detect Qwik before plain Vite', async () => {
+    const result = await detect('qwik');
+
+    expect(result.framework).toBe('qwik');
+    expect(result.command).toBe('vite --mode ssr');
+    expect(result.port).toBe(5173);
+    expect(result.configFile).toBe('vite.config.ts');
+    expect(result.readyPattern.test('  ➜  Local:   http://localhost:5173/')).toBe(true);
+  });
+
+  test('should detect SolidStart', async () => {
+    const result = await detect('solid-start');
+
+    expect(result.framework).toBe('solid-start');
+    expect(result.command).toBe('vinxi dev');
+    expect(result.port).toBe(3000);
+    expect(result.configFile).toBe('app.config.ts');
+    expect(result.readyPattern.test('  ➜ Local:    http://localhost:3000/')).toBe(true);
+  });
+
+  test('should detect Eleventy and its legacy config file', async () => {
+    const result = await detect('eleventy');
+
+    expect(result.framework).toBe('eleventy');
+    expect(result.command).toBe('eleventy --serve');
+    expect(result.port).toBe(8080);
+    expect(result.configFile).toBe('.eleventy.js');
+    expect(result.readyPattern.test('[11ty] Server at http://localhost:8080/')).toBe(true);
+  });
+});
+
+test.describe('FrameworkDetector workspaces', () => {
+  const root = path.join(__dirname, 'fixtures', 'workspaces', 'pnpm');
+
+  test('should list workspace apps and skip libraries', async () => {
+    const workspace = await new FrameworkDetector(root).detectWorkspace();
+
+    expect(workspace.tools).toEqual(['pnpm', 'turbo']);
+    expect(workspace.packageManager).toBe('pnpm');
+    expect(workspace.apps.map(app => [app.name, app.framework, app.path])).toEqual([
+      ['@acme/docs', 'astro', 'apps/docs'],
+      ['@acme/web', 'nextjs', 'apps/web'],
+    ]);
+  });
+
+  test('should ask for an app when there are several', async () => {
+    await expect(new FrameworkDetector(root).detect()).rejects.toThrow(/--app <name>/);
+  });
+
+  test('should detect the chosen app by package name or directory', async () => {
+    const byName = await new FrameworkDetector(root, '@acme/web').detect();
+    const byDirectory = await new FrameworkDetector(root, 'web').detect();
+
+    expect(byName.framework).toBe('nextjs');
+    expect(byName.app.script).toBe('dev');
+    expect(byDirectory.app.name).toBe('@acme/web');
+  });
+
+  test('should name the requested app and list the apps found when none match', async () => {
+    const libraries = path.join(__dirname, 'fixtures', 'workspaces', 'libraries');
+
+    await expect(new FrameworkDetector(root, 'admin').detect()).rejects.toThrow(
+      'No workspace app named "admin". Apps: @acme/docs (astro, apps/docs), @acme/web (nextjs, apps/web)'
+    );
+    await expect(new FrameworkDetector(libraries, 'web').detect()).rejects.toThrow(
+      'No workspace app named "web". Apps: none found'
+    );
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for InteractionRecorder
+ *
+ * Drives a small form with Playwright, checks the recorded actions and
+ * replays them with InteractionEngine.
+ * Requires a build first: npm run build
+ */
+
+const { test, expect } = require('@playwright/test');
+const { InteractionRecorder } = require('../dist/interaction-recorder');
+const { InteractionEngine } = require('../dist/interaction-engine');
+
+const FORM = `<!DOCTYPE html>
+<html>
+<body>
+  <button data-testid="open">Open</button>
+  <label>Email <input type="email"></label>
+  <select name="size"><option value="s">Small</option><option value="m">Medium</option></select>
+  <input type="checkbox" id="terms"><label for="terms">Accept</label>
+  <div class="card" onclick="this.dataset.picked = 'yes'">Pick me</div>
+  <input type="range" name="volume" min="0" max="100" value="50" onchange="document.body.dataset.volume = this.value">
+  <a href="/done">Finish</a>
+</body>
+</html>`;
+
+test.beforeEach(async ({ context }) => {
+  await context.route('http://uisentinel.test/**', route => route.fulfill({
+    contentType: 'text/html',
+    body: route.request().url().endsWith('/done') ? '<h1>Done</h1>' : FORM,
+  }));
+});
+
+test.describe('InteractionRecorder', () => {
+
+  test('should record steps with test id, role, text and field selectors', async ({ page }) => {
+    const recorder = new InteractionRecorder(page);
+    await recorder.start();
+    await page.goto('http://uisentinel.test/form');
+
+    await page.click('[data-testid="open"]');
+    await page.fill('input[type="email"]', 'ada@example.com');
+    await page.selectOption('select', 'm');
+    await page.click('label[for="terms"]');
+    await page.click('.card');
+    await page.click('a');
+    await page.waitForURL('**/done');
+
+    await expect.poll(() => recorder.getActions().length).toBe(7);
+    expect(recorder.getActions()).toEqual([
+      { type: 'click', selector: '[data-testid="open"]' },
+      { type: 'fill', selector: 'role=textbox[name="Email"s]', value: 'ada@example.com' },
+      { type: 'select', selector: 'select[name="size"]', value: 'm' },
+      { type: 'check', selector: 'role=checkbox[name="Accept"s]' },
+      { type: 'click', selector: 'text="Pick me"' },
+      { type: 'click', selector: 'role=link[name="Finish"s]' },
+      { type: 'waitForNavigation', url: '/done' },
+    ]);
+  });
+
+  test('should record actions that replay with InteractionEngine', async ({ page, context }) => {
+    const recorder = new InteractionRecorder(page);
+    await recorder.start();
+    await page.goto('http://uisentinel.test/form');
+    await page.fill('input[type="email"]', 'ada@example.com');
+    await page.click('label[for="terms"]');
+    await page.click('a');
+    await page.waitForURL('**/done');
+    await expect.poll(() => recorder.getActions().length).toBe(4);
+
+    const replay = await context.newPage();
+    await replay.goto('http://uisentinel.test/form');
+    await new InteractionEngine(replay).executeSequence(recorder.getActions());
+
+    expect(replay.url()).toBe('http://uisentinel.test/done');
+  });
+
+  test('should record a slider by its final value and replay it', async ({ page, context }) => {
+    const recorder = new InteractionRecorder(page);
+    await recorder.start();
+    await page.goto('http://uisentinel.test/form');
+    await page.focus('input[name="volume"]');
+    await page.keyboard.press('ArrowRight');
+
+    await expect.poll(() => recorder.getActions().length).toBe(1);
+    const [action] = recorder.getActions();
+    expect(action.type).toBe('evaluate');
+    expect(action.script).toContain('"51"');
+    expect(action.script).toContain('"input[name=\\"volume\\"]"');
+
+    const replay = await context.newPage();
+    await replay.goto('http://uisentinel.test/form');
+    await new InteractionEngine(replay).executeSequence(recorder.getActions());
+
+    expect(await replay.inputValue('input[name="volume"]')).toBe('51');
+    expect(await replay.evaluate(() => document.body.dataset.volume)).toBe('51');
+  });
+});
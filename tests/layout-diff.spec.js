@@ -0,0 +1,85 @@
+/**
+ * Unit Tests for LayoutDiff
+ *
+ * tests/fixtures/layouts holds two layout snapshots of the same page: in the
+ * current one the header grew by 40px and pushed the main content down, a
+ * promo block was replaced by a banner, and the modal moved to a higher z-index.
+ * Requires a build first: npm run build
+ */
+
+const { test, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs');
+const { LayoutDiff } = require('../dist/layout-diff');
+
+const fixtures = path.join(__dirname, 'fixtures', 'layouts');
+
+function load(name) {
+  return JSON.parse(fs.readFileSync(path.join(fixtures, `${name}.layout.json`), 'utf-8'));
+}
+
+test.describe('LayoutDiff', () => {
+
+  test('should report each kind of change once, in a fixed order', () => {
+    const diff = new LayoutDiff().compare(load('baseline'), load('current'));
+
+    expect(diff.changes.map(change => [change.type, change.selector])).toEqual([
+      ['removed', '#promo'],
+      ['added', '#banner'],
+      ['moved', 'body > main'],
+      ['resized', 'body > header'],
+      ['zIndex', '#modal'],
+    ]);
+    expect(diff).toMatchObject({ moved: 1, resized: 1, added: 1, removed: 1, zIndexChanged: 1 });
+  });
+
+  test('should describe the changes', () => {
+    const diff = new LayoutDiff().compare(load('baseline'), load('current'));
+
+    expect(diff.summary).toEqual([
+      '#promo disappeared (was at (0, 380), 1280×100)',
+      '#banner appeared at (0, 80), 1280×40',
+      'body > main moved 40px down',
+      'body > header resized from 1280×80 to 1280×120',
+      '#modal z-index changed from 10 to 100',
+    ]);
+  });
+
+  test('should not report children that only follow their parent', () => {
+    const diff = new LayoutDiff().compare(load('baseline'), load('current'));
+    const selectors = diff.changes.map(change => change.selector);
+
+    // Moved with body > main (and #cta by 41px, within the 1px tolerance of its parent's 40px)
+    expect(selectors).not.toContain('body > main > section:nth-of-type(1)');
+    expect(selectors).not.toContain('[data-testid="hero-title"]');
+    expect(selectors).not.toContain('#cta');
+    // Inside a removed or added subtree
+    expect(selectors).not.toContain('#promo > p');
+    expect(selectors).not.toContain('#banner > a');
+  });
+
+  test('should keep the matched elements on each change', () => {
+    const diff = new LayoutDiff().compare(load('baseline'), load('current'));
+    const [removed, added, moved] = diff.changes;
+
+    expect(removed.current).toBeUndefined();
+    expect(removed.baseline.boundingBox.y).toBe(380);
+    expect(added.baseline).toBeUndefined();
+    expect(added.current.boundingBox.height).toBe(40);
+    expect(moved.baseline.boundingBox.y).toBe(80);
+    expect(moved.current.boundingBox.y).toBe(120);
+  });
+
+  test('should ignore moves and resizes within the tolerance', () => {
+    const diff = new LayoutDiff(50).compare(load('baseline'), load('current'));
+
+    expect(diff.changes.map(change => change.type)).toEqual(['removed', 'added', 'zIndex']);
+  });
+
+  test('should find no changes between identical snapshots', () => {
+    const diff = new LayoutDiff().compare(load('baseline'), load('baseline'));
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.summary).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit Tests for ScenarioLoader
+ *
+ * Fixtures in tests/fixtures/scenarios are valid scenario files;
+ * tests/fixtures/scenarios-invalid holds files with one mistake per step.
+ * Requires a build first: npm run build
+ */
+
+const { test, expect } = require('@playwright/test');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { ScenarioLoader } = require('../dist/scenario-loader');
+
+const fixtures = path.join(__dirname, 'fixtures');
+
+function load(...files) {
+  return new ScenarioLoader().load(files.map(file => path.join(fixtures, file)));
+}
+
+test.describe('ScenarioLoader', () => {
+
+  test('should load YAML and JSON scenarios from a directory', async () => {
+    const scenarios = load('scenarios');
+
+    expect(scenarios.map(scenario => scenario.name)).toEqual(['Checkout dialog', 'Search']);
+    expect(scenarios[0].viewports).toEqual(['mobile', { width: 1280, height: 800 }]);
+    expect(scenarios[0].source).toContain('checkout.yml');
+    expect(scenarios[1].actions[2]).toEqual({ type: 'assert', assert: 'count', selector: '.result', min: 1 });
+  });
+
+  test('should add the assert type to entries of the assertions list', async () => {
+    const [scenario] = load('scenarios/*.yml');
+
+    expect(scenario.assertions.map(assertion => [assertion.type, assertion.assert])).toEqual([
+      ['assert', 'visible'],
+      ['assert', 'box'],
+    ]);
+  });
+
+  test('should resolve upload paths against the scenario file, not the working directory', async () => {
+    const cwd = process.cwd();
+    process.chdir(os.tmpdir());
+    try {
+      const [scenario] = load('scenarios/checkout.yml');
+      const receipt = path.join(fixtures, 'scenarios', 'files', 'receipt.txt');
+
+      expect(scenario.actions[0]).toEqual({ type: 'upload', selector: '#receipt', files: receipt });
+      expect(fs.existsSync(scenario.actions[0].files)).toBe(true);
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+
+  test('should report every bad step with its path', async () => {
+    let message = '';
+    try {
+      load('scenarios-invalid/typos.yml');
+    } catch (error) {
+      message = error.message;
+    }
+
+    expect(message).toContain('actions[0]: unknown type "clik" (did you mean "click"?)');
+    expect(message).toContain('actions[1]: missing "selector" for click');
+    expect(message).toContain('actions[1]: unknown property "selecter" for click (did you mean "selector"?)');
+    expect(message).toContain('actions[2].value: expected string, got number');
+    expect(message).toContain('actions[3]: missing "type"');
+    expect(message).toContain('assertions[0].width: expected number or object, got string');
+  });
+
+  test('should reject a scenario without a name or url', async () => {
+    expect(new ScenarioLoader().validate({ url: '/' })).toEqual(['scenario: missing "name" for scenario']);
+    expect(new ScenarioLoader().validate([{ name: 'x' }])).toEqual(['[0]: missing "url" for scenario']);
+  });
+
+  test('should fail on files that do not exist', async () => {
+    expect(() => load('scenarios/missing.yml')).toThrow(/Scenario file not found/);
+    expect(() => load('scenarios/*.toml')).toThrow(/No scenario files found/);
+  });
+});
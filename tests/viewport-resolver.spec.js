@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for ViewportResolver
+ *
+ * tests/fixtures/viewports/viewport-presets.config.js defines custom presets,
+ * one of which overrides the built-in tablet preset.
+ * Requires a build first: npm run build
+ */
+
+const { test, expect } = require('@playwright/test');
+const path = require('path');
+const { devices } = require('playwright');
+const { ViewportResolver } = require('../dist/viewport-resolver');
+const { loadConfig } = require('../dist/config-loader');
+const { VIEWPORT_PRESETS } = require('../dist/types');
+
+const config = loadConfig(path.join(__dirname, 'fixtures', 'viewports', 'viewport-presets.config.js'));
+
+function resolver() {
+  return new ViewportResolver(config.viewportPresets);
+}
+
+test.describe('ViewportResolver', () => {
+
+  test('should resolve built-in presets', () => {
+    expect(resolver().resolve('mobile')).toEqual(VIEWPORT_PRESETS.mobile);
+    expect(resolver().resolve('desktop')).toEqual({ width: 1920, height: 1080, deviceScaleFactor: 1, isMobile: false });
+  });
+
+  test('should resolve custom presets by name, ahead of built-in ones', () => {
+    expect(resolver().resolve('kiosk')).toEqual({ name: 'kiosk', width: 1080, height: 1920 });
+    expect(resolver().resolve('tablet')).toEqual({ name: 'tablet', width: 800, height: 1280, deviceScaleFactor: 2, isMobile: true });
+    expect(new ViewportResolver().resolve('tablet')).toEqual(VIEWPORT_PRESETS.tablet);
+  });
+
+  test('should resolve Playwright device names case-insensitively', () => {
+    const iPhone = devices['iPhone 13'];
+
+    expect(resolver().resolve('iphone 13')).toEqual({
+      name: 'iPhone 13',
+      width: iPhone.viewport.width,
+      height: iPhone.viewport.height,
+      deviceScaleFactor: iPhone.deviceScaleFactor,
+      isMobile: iPhone.isMobile,
+      hasTouch: iPhone.hasTouch,
+      userAgent: iPhone.userAgent,
+    });
+  });
+
+  test('should pass viewport objects through', () => {
+    const viewport = { width: 1366, height: 768 };
+
+    expect(resolver().resolve(viewport)).toBe(viewport);
+  });
+
+  test('should name viewports by preset, device or size', () => {
+    const viewportResolver = resolver();
+
+    expect(viewportResolver.getName(viewportResolver.resolve('kiosk'))).toBe('kiosk');
+    expect(viewportResolver.getName(viewportResolver.resolve('iphone 13'))).toBe('iPhone 13');
+    expect(viewportResolver.getName({ width: 1920, height: 1080 })).toBe('desktop');
+    expect(viewportResolver.getName({ width: 1366, height: 768 })).toBe('1366x768');
+    expect(viewportResolver.getFileName(viewportResolver.resolve('iPhone 13 Pro'))).toBe('iPhone-13-Pro');
+  });
+
+  test('should suggest devices for an unknown name', () => {
+    expect(() => resolver().resolve('iphone thirteen')).toThrow(/^Unknown viewport: iphone thirteen\. Did you mean "iPhone/);
+    expect(() => resolver().resolve('watch')).toThrow(
+      'Unknown viewport: watch. Use kiosk, small-android, tablet, mobile, desktop, mobile-landscape, ' +
+      'a Playwright device name such as "iPhone 13", or run `uisentinel devices` to list them.'
+    );
+  });
+
+  test('should list custom presets, built-in presets and devices', () => {
+    const viewportResolver = resolver();
+
+    expect(viewportResolver.list('android')).toEqual([
+      { name: 'small-android', source: 'custom', viewport: viewportResolver.resolve('small-android') },
+    ]);
+    expect(viewportResolver.list('landscape').map(entry => entry.source)).toContain('preset');
+    expect(viewportResolver.list('pixel 7').map(entry => entry.name)).toEqual(['Pixel 7', 'Pixel 7 landscape']);
+    expect(viewportResolver.list().length).toBe(3 + Object.keys(VIEWPORT_PRESETS).length + Object.keys(devices).length);
+  });
+});
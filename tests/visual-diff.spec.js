@@ -0,0 +1,117 @@
+/**
+ * Unit Tests for VisualDiff
+ *
+ * Compares the small images in tests/fixtures/visual-diff: a white 20x20
+ * baseline, the same image with a 5x5 black square at (2, 2), and a white
+ * 20x30 image for dimension mismatches.
+ * Requires a build first: npm run build
+ */
+
+const { test, expect } = require('@playwright/test');
+const path = require('path');
+const fs = require('fs');
+const { PNG } = require('pngjs');
+const { VisualDiff } = require('../dist/visual-diff');
+
+const fixtures = path.join(__dirname, 'fixtures', 'visual-diff');
+const baseline = path.join(fixtures, 'baseline.png');
+const changed = path.join(fixtures, 'changed.png');
+const taller = path.join(fixtures, 'taller.png');
+
+function differ() {
+  return new VisualDiff(test.info().outputPath('uisentinel-output'));
+}
+
+test.describe('VisualDiff', () => {
+
+  test('should pass identical images', async () => {
+    const result = await differ().compare(baseline, baseline);
+
+    expect(result.diffPixels).toBe(0);
+    expect(result.totalPixels).toBe(400);
+    expect(result.passed).toBe(true);
+    expect(fs.existsSync(result.diffPath)).toBe(true);
+  });
+
+  test('should count changed pixels against the threshold', async () => {
+    const result = await differ().compare(baseline, changed, 0.1);
+
+    expect(result.diffPixels).toBe(25);
+    expect(result.diffPercentage).toBe(6.25);
+    expect(result.passed).toBe(false);
+
+    const lenient = await differ().compare(baseline, changed, 10);
+    expect(lenient.passed).toBe(true);
+  });
+
+  test('should ignore pixels under a mask and tint them in the diff image', async () => {
+    const result = await differ().compare(baseline, changed, {
+      masks: [{ x: 0, y: 0, width: 10, height: 10, selector: '.ad' }],
+    });
+
+    expect(result.diffPixels).toBe(0);
+    expect(result.passed).toBe(true);
+    expect(result.masks).toEqual([{ x: 0, y: 0, width: 10, height: 10, selector: '.ad' }]);
+
+    const diff = PNG.sync.read(fs.readFileSync(result.diffPath));
+    const [r, g, b] = diff.data.slice(0, 3);
+    expect(b).toBeGreaterThan(r);
+    expect(b).toBeGreaterThan(g);
+  });
+
+  test('should clip masks to the image and drop those outside it', async () => {
+    const result = await differ().compare(baseline, changed, {
+      masks: [
+        { x: -5, y: -5, width: 10, height: 10 },
+        { x: 50, y: 50, width: 10, height: 10 },
+      ],
+    });
+
+    expect(result.masks).toEqual([{ x: 0, y: 0, width: 5, height: 5 }]);
+    // The square at (2, 2)-(6, 6) is only partly masked
+    expect(result.diffPixels).toBe(25 - 9);
+  });
+
+  test('should fail a size mismatch without comparing under the fail policy', async () => {
+    const result = await differ().compare(baseline, taller, { dimensionPolicy: 'fail' });
+
+    expect(result.passed).toBe(false);
+    expect(result.diffPath).toBe('');
+    expect(result.diffPercentage).toBe(100);
+    expect(result.totalPixels).toBe(600);
+    expect(result.dimensionMismatch).toEqual({
+      policy: 'fail',
+      baseline: { width: 20, height: 20 },
+      current: { width: 20, height: 30 },
+    });
+  });
+
+  test('should count the padded area as different under the pad policy', async () => {
+    const result = await differ().compare(baseline, taller, { dimensionPolicy: 'pad' });
+
+    expect(result.totalPixels).toBe(600);
+    expect(result.diffPixels).toBe(200);
+    expect(result.passed).toBe(false);
+    expect(result.dimensionMismatch.policy).toBe('pad');
+  });
+
+  test('should compare only the shared area under the crop policy', async () => {
+    const result = await differ().compare(baseline, taller, { dimensionPolicy: 'crop' });
+
+    expect(result.totalPixels).toBe(400);
+    expect(result.diffPixels).toBe(0);
+    expect(result.passed).toBe(true);
+    expect(result.dimensionMismatch.policy).toBe('crop');
+  });
+
+  test('should give routes that share a slug different baseline names', () => {
+    const visualDiff = differ();
+
+    expect(visualDiff.getBaselineName('/about', 'mobile')).toBe('about__mobile');
+    expect(visualDiff.getBaselineName('/', 'desktop', 'webkit')).toBe('home__desktop__webkit');
+    expect(visualDiff.getBaselineName('/search?q=shoes', 'mobile'))
+      .not.toBe(visualDiff.getBaselineName('/search?q=hats', 'mobile'));
+    expect(visualDiff.getBaselineName('/blog_post', 'mobile'))
+      .not.toBe(visualDiff.getBaselineName('/blog/post', 'mobile'));
+  });
+});